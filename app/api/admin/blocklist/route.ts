@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminForbidden, isAdminRequest } from '@/utils/adminAuth';
+import { PUZZLE_LIMITS } from '@/utils/puzzleValidation';
+import {
+  addBlockedWords,
+  getCustomBlockedWords,
+  loadBaseBlocklist,
+  removeBlockedWord,
+} from '@/utils/wordBlocklist';
+import { isAnyLanguageWord, normalizeAnyWord } from '@/utils/languages';
+
+const MAX_WORDS_PER_REQUEST = 500;
+
+/**
+ * The maintained list and the words admins added at runtime
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) return adminForbidden();
+
+  try {
+    return NextResponse.json({
+      base: Array.from(loadBaseBlocklist()).sort(),
+      custom: await getCustomBlockedWords(),
+    });
+  } catch (error) {
+    console.error('Error loading blocklist:', error);
+    return NextResponse.json(
+      { error: 'Failed to load blocklist' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Block more words: { words: string[] }
+ */
+export async function PUT(request: NextRequest) {
+  if (!isAdminRequest(request)) return adminForbidden();
+
+  try {
+    const { words } = (await request.json()) ?? {};
+
+    if (
+      !Array.isArray(words) ||
+      words.length === 0 ||
+      words.length > MAX_WORDS_PER_REQUEST ||
+      !words.every(
+        (word) =>
+          typeof word === 'string' &&
+          isAnyLanguageWord(normalizeAnyWord(word.trim())) &&
+          word.trim().length <= PUZZLE_LIMITS.maxWordLength
+      )
+    ) {
+      return NextResponse.json(
+        { error: `words must be a list of 1-${MAX_WORDS_PER_REQUEST} words made only of letters` },
+        { status: 400 }
+      );
+    }
+
+    const custom = await addBlockedWords(words.map((word: string) => word.trim()));
+    return NextResponse.json({ success: true, custom });
+  } catch (error) {
+    console.error('Error updating blocklist:', error);
+    return NextResponse.json(
+      { error: 'Failed to update blocklist' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Unblock a word added at runtime: ?word=
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) return adminForbidden();
+
+  try {
+    const word = new URL(request.url).searchParams.get('word');
+
+    if (!word) {
+      return NextResponse.json(
+        { error: 'Missing word' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await removeBlockedWord(word))) {
+      const message = loadBaseBlocklist().has(normalizeAnyWord(word))
+        ? 'Words in blocklist.txt can only be removed by editing the file'
+        : 'Word is not on the runtime blocklist';
+      return NextResponse.json(
+        { error: message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating blocklist:', error);
+    return NextResponse.json(
+      { error: 'Failed to update blocklist' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPuzzleStorage, isValidPuzzleId } from '@/utils/puzzleStorage';
+import { adminForbidden, isAdminRequest } from '@/utils/adminAuth';
+import { isValidDateKey } from '@/utils/dailyDates';
+import {
+  listDailyEntries,
+  scheduleDailyPuzzle,
+  todayIn,
+  unscheduleDailyPuzzle,
+} from '@/utils/dailySchedule';
+
+/**
+ * Days that have already started in the schedule's timezone can't be changed
+ */
+function checkEditableDate(date: unknown): NextResponse | null {
+  if (!isValidDateKey(date)) {
+    return NextResponse.json(
+      { error: 'Date must be YYYY-MM-DD' },
+      { status: 400 }
+    );
+  }
+  if (date < todayIn(null)) {
+    return NextResponse.json(
+      { error: 'Past dates cannot be changed' },
+      { status: 400 }
+    );
+  }
+  return null;
+}
+
+/**
+ * The full schedule, including days that players can't see yet
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) return adminForbidden();
+
+  try {
+    return NextResponse.json({ today: todayIn(null), days: await listDailyEntries() });
+  } catch (error) {
+    console.error('Error loading daily schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to load daily schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Queue a published puzzle for a date: { date, id }
+ */
+export async function PUT(request: NextRequest) {
+  if (!isAdminRequest(request)) return adminForbidden();
+
+  try {
+    const { date, id } = (await request.json()) ?? {};
+
+    const dateError = checkEditableDate(date);
+    if (dateError) return dateError;
+
+    if (!isValidPuzzleId(id) || !(await getPuzzleStorage().get(id))) {
+      return NextResponse.json(
+        { error: 'Puzzle not found' },
+        { status: 404 }
+      );
+    }
+
+    await scheduleDailyPuzzle(date, id);
+    return NextResponse.json({ success: true, date, id });
+  } catch (error) {
+    console.error('Error scheduling daily puzzle:', error);
+    return NextResponse.json(
+      { error: 'Failed to schedule daily puzzle' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove a queued puzzle: ?date=YYYY-MM-DD
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) return adminForbidden();
+
+  try {
+    const date = new URL(request.url).searchParams.get('date');
+
+    const dateError = checkEditableDate(date);
+    if (dateError) return dateError;
+
+    if (!(await unscheduleDailyPuzzle(date!))) {
+      return NextResponse.json(
+        { error: 'Nothing scheduled for this date' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error unscheduling daily puzzle:', error);
+    return NextResponse.json(
+      { error: 'Failed to unschedule daily puzzle' },
+      { status: 500 }
+    );
+  }
+}
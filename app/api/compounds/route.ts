@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchCompoundPairs } from '@/utils/compoundIndex';
+import { getBlockedWords } from '@/utils/wordBlocklist';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Search compound-word edge pairs:
+ * ?wordLength=4&contains=FOOT&minRungs=2&maxRungs=6&kind=compound|phrase&offset=0&limit=50
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const integer = (name: string): number | undefined | null => {
+      const raw = searchParams.get(name);
+      if (raw === null || raw === '') return undefined;
+      const value = Number(raw);
+      return Number.isInteger(value) && value >= 0 ? value : null;
+    };
+
+    const wordLength = integer('wordLength');
+    const minRungs = integer('minRungs');
+    const maxRungs = integer('maxRungs');
+    const offset = integer('offset');
+    const limit = integer('limit');
+    const kind = searchParams.get('kind') || undefined;
+    const contains = searchParams.get('contains')?.trim() || undefined;
+
+    if ([wordLength, minRungs, maxRungs, offset, limit].includes(null)) {
+      return NextResponse.json(
+        { error: 'wordLength, minRungs, maxRungs, offset and limit must be whole numbers' },
+        { status: 400 }
+      );
+    }
+
+    if (kind !== undefined && kind !== 'compound' && kind !== 'phrase') {
+      return NextResponse.json(
+        { error: 'kind must be "compound" or "phrase"' },
+        { status: 400 }
+      );
+    }
+
+    if (contains !== undefined && !/^[A-Za-z]+$/.test(contains)) {
+      return NextResponse.json(
+        { error: 'contains must be a single word' },
+        { status: 400 }
+      );
+    }
+
+    const result = searchCompoundPairs({
+      wordLength: wordLength ?? undefined,
+      contains,
+      minRungs: minRungs ?? undefined,
+      maxRungs: maxRungs ?? undefined,
+      kind,
+      // The index is built with the maintained blocklist; this adds runtime additions
+      blocked: await getBlockedWords(),
+      offset: offset ?? undefined,
+      limit: Math.min(limit || DEFAULT_LIMIT, MAX_LIMIT),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error searching compound pairs:', error);
+    return NextResponse.json(
+      { error: 'Failed to search compound pairs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDailyEntries, todayIn } from '@/utils/dailySchedule';
+
+/**
+ * Past daily puzzles up to and including the player's today (?tz=),
+ * optionally limited to one month (?month=YYYY-MM)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const today = todayIn(searchParams.get('tz'));
+    const month = searchParams.get('month');
+
+    if (month && !/^\d{4}-\d{2}$/.test(month)) {
+      return NextResponse.json(
+        { error: 'Invalid month' },
+        { status: 400 }
+      );
+    }
+
+    const days = await listDailyEntries(
+      (date) => date <= today && (!month || date.startsWith(`${month}-`))
+    );
+    return NextResponse.json({ today, days });
+  } catch (error) {
+    console.error('Error loading daily archive:', error);
+    return NextResponse.json(
+      { error: 'Failed to load daily archive' },
+      { status: 500 }
+    );
+  }
+}
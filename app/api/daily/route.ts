@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPuzzleStorage } from '@/utils/puzzleStorage';
+import { toPublicPuzzle } from '@/utils/puzzleRevisions';
+import { withDifficulty } from '@/utils/puzzleDifficulty';
+import { getDailySchedule, todayIn } from '@/utils/dailySchedule';
+import { isValidDateKey } from '@/utils/dailyDates';
+
+/**
+ * Puzzle of the day: ?tz=<IANA timezone> resolves "today" for the player,
+ * ?date=YYYY-MM-DD replays a past day. Future days are never revealed.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const today = todayIn(searchParams.get('tz'));
+    const date = searchParams.get('date') || today;
+
+    if (!isValidDateKey(date)) {
+      return NextResponse.json(
+        { error: 'Invalid date' },
+        { status: 400 }
+      );
+    }
+
+    const id = date <= today ? (await getDailySchedule())[date] : undefined;
+    const puzzle = id ? await getPuzzleStorage().get(id) : null;
+
+    if (!id || !puzzle) {
+      return NextResponse.json(
+        { error: 'No puzzle scheduled for this date', date },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ date, id, puzzle: toPublicPuzzle(withDifficulty(puzzle)) });
+  } catch (error) {
+    console.error('Error loading daily puzzle:', error);
+    return NextResponse.json(
+      { error: 'Failed to load daily puzzle' },
+      { status: 500 }
+    );
+  }
+}
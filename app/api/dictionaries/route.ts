@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { DICTIONARIES, DictionaryInfo } from '@/utils/dictionaries';
+import { isDictionaryInstalled } from '@/utils/dictionaryData';
+import { dictionaryHasCommonness } from '@/utils/wordCommonness';
+
+// Dictionaries can be preprocessed after the app is built
+export const dynamic = 'force-dynamic';
+
+/**
+ * Dictionaries this server has preprocessed data for; the others are
+ * registered but would fail every search
+ */
+export async function GET() {
+  try {
+    const dictionaries: DictionaryInfo[] = DICTIONARIES.filter((dictionary) => isDictionaryInstalled(dictionary.id)).map(
+      ({ id, name, description, language }) => ({
+        id,
+        name,
+        description,
+        language,
+        commonness: dictionaryHasCommonness(id),
+      })
+    );
+    return NextResponse.json({ dictionaries });
+  } catch (error) {
+    console.error('Error listing dictionaries:', error);
+    return NextResponse.json(
+      { error: 'Failed to list dictionaries' },
+      { status: 500 }
+    );
+  }
+}
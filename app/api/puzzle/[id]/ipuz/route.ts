@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPuzzleStorage, isValidPuzzleId } from '@/utils/puzzleStorage';
+import { toPublicPuzzle } from '@/utils/puzzleRevisions';
+import { pickGameInfo } from '@/utils/puzzleValidation';
+import { gameInfoToIpuz } from '@/utils/ipuz';
+
+/**
+ * Download a puzzle (latest revision, or ?rev=N) as an .ipuz file
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const rev = request.nextUrl.searchParams.get('rev');
+    const puzzle = isValidPuzzleId(id) ? await getPuzzleStorage().get(id) : null;
+
+    if (!puzzle) {
+      return NextResponse.json(
+        { error: 'Puzzle not found' },
+        { status: 404 }
+      );
+    }
+
+    const publicPuzzle = toPublicPuzzle(puzzle, rev === null ? undefined : Number(rev));
+
+    if (!publicPuzzle) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(JSON.stringify(gameInfoToIpuz(pickGameInfo(publicPuzzle)), null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="crossclimb-${id}.ipuz"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting ipuz:', error);
+    return NextResponse.json(
+      { error: 'Failed to export puzzle' },
+      { status: 500 }
+    );
+  }
+}
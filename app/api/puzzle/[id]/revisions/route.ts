@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPuzzleStorage, isValidPuzzleId } from '@/utils/puzzleStorage';
+import { diffGameInfo, getRevision, getRevisions } from '@/utils/puzzleRevisions';
+
+/**
+ * GET /api/puzzle/[id]/revisions           -> revision list (newest last)
+ * GET /api/puzzle/[id]/revisions?from=1&to=2 -> field-level diff between two revisions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const puzzle = isValidPuzzleId(id) ? await getPuzzleStorage().get(id) : null;
+
+    if (!puzzle) {
+      return NextResponse.json(
+        { error: 'Puzzle not found' },
+        { status: 404 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (from === null && to === null) {
+      const revisions = getRevisions(puzzle).map(({ revision, createdAt, editor }) => ({
+        revision,
+        createdAt,
+        editor,
+      }));
+      return NextResponse.json({ id, revisions });
+    }
+
+    const revisions = getRevisions(puzzle);
+    const fromRevision = getRevision(puzzle, Number(from ?? 1));
+    const toRevision = getRevision(puzzle, Number(to ?? revisions[revisions.length - 1].revision));
+
+    if (!fromRevision || !toRevision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      id,
+      from: fromRevision.revision,
+      to: toRevision.revision,
+      changes: diffGameInfo(fromRevision.gameInfo, toRevision.gameInfo),
+    });
+  } catch (error) {
+    console.error('Error loading revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to load revisions' },
+      { status: 500 }
+    );
+  }
+}
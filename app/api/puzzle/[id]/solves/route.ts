@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPuzzleStorage, isValidPuzzleId } from '@/utils/puzzleStorage';
+import { getRevision, recordSolve } from '@/utils/puzzleRevisions';
+import { ratePuzzle } from '@/utils/puzzleDifficulty';
+import { isRecord } from '@/utils/puzzleValidation';
+
+// Anything longer is almost certainly a tab left open overnight
+const MAX_SOLVE_SECONDS = 24 * 60 * 60;
+
+/**
+ * Record a completed solve: { revision, timeSeconds }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    let body: unknown = null;
+    try {
+      body = await request.json();
+    } catch {
+      // Unparseable bodies get the same answer as non-objects
+    }
+
+    if (!isRecord(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+    const { revision, timeSeconds } = body;
+
+    if (
+      typeof revision !== 'number' ||
+      !Number.isInteger(revision) ||
+      typeof timeSeconds !== 'number' ||
+      !Number.isFinite(timeSeconds) ||
+      timeSeconds < 0 ||
+      timeSeconds > MAX_SOLVE_SECONDS
+    ) {
+      return NextResponse.json(
+        { error: 'Missing or invalid revision or timeSeconds' },
+        { status: 400 }
+      );
+    }
+
+    // Read and write in one update so a concurrent edit's new revision isn't lost
+    let revisionFound = true;
+    const solved = isValidPuzzleId(id)
+      ? await getPuzzleStorage().update(id, (puzzle) => {
+          if (!puzzle) return null;
+          if (!getRevision(puzzle, revision)) {
+            revisionFound = false;
+            return null;
+          }
+          const solveStats = recordSolve(puzzle.solveStats, revision, Math.round(timeSeconds));
+          // Solve times feed the difficulty rating
+          const withSolve = { ...puzzle, solveStats };
+          return { ...withSolve, difficulty: ratePuzzle(withSolve) };
+        })
+      : null;
+
+    if (!solved) {
+      return NextResponse.json(
+        { error: revisionFound ? 'Puzzle not found' : 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, solves: solved.solveStats!.solves });
+  } catch (error) {
+    console.error('Error recording solve:', error);
+    return NextResponse.json(
+      { error: 'Failed to record solve' },
+      { status: 500 }
+    );
+  }
+}
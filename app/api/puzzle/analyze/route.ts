@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateGameInfo } from '@/utils/puzzleValidation';
+import { analyzePuzzle } from '@/utils/puzzleAnalysis';
+import { estimateDifficulty } from '@/utils/puzzleDifficulty';
+import { getBlockedWords } from '@/utils/wordBlocklist';
+
+/**
+ * Report other words that fit each rung of a puzzle and other orders its
+ * middle rows sort into, so authors can tighten clues before publishing,
+ * along with the difficulty rating the puzzle would be stored with
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { gameInfo } = (await request.json()) ?? {};
+
+    if (!gameInfo) {
+      return NextResponse.json(
+        { error: 'Missing gameInfo' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateGameInfo(gameInfo);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid puzzle', errors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const blocked = await getBlockedWords();
+    const analysis = analyzePuzzle(validation.gameInfo, (word) => blocked.has(word));
+
+    const difficulty = estimateDifficulty(validation.gameInfo);
+
+    return NextResponse.json({ success: true, analysis, difficulty });
+  } catch (error) {
+    console.error('Error analyzing puzzle:', error);
+    return NextResponse.json(
+      { error: 'Failed to analyze puzzle' },
+      { status: 500 }
+    );
+  }
+}
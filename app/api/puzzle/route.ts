@@ -1,13 +1,83 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GameInfo } from '@/types/game';
+import { StoredPuzzle } from '@/types/game';
+import { getPuzzleStorage, isValidPuzzleId } from '@/utils/puzzleStorage';
+import { isRecord, PUZZLE_LIMITS, validateGameInfo } from '@/utils/puzzleValidation';
+import { isDictionaryWord } from '@/utils/dictionaryData';
+import { getBlockedWords } from '@/utils/wordBlocklist';
+import { generateEditToken, hashEditToken, verifyEditToken } from '@/utils/editTokens';
+import { appendRevision, createStoredPuzzle, toPublicPuzzle } from '@/utils/puzzleRevisions';
+import { parsePuzzleListQuery, queryPuzzles } from '@/utils/puzzleListing';
+import { ratePuzzle, withDifficulty } from '@/utils/puzzleDifficulty';
 
-// In-memory store for puzzles (in production, use a database)
-const puzzleStore: Record<string, GameInfo & { createdAt: string }> = {};
+const EDIT_TOKEN_HEADER = 'x-edit-token';
+
+/**
+ * Read a size-limited JSON object body, or return the error response to send
+ */
+async function readJsonBody(request: NextRequest): Promise<{ body: Record<string, unknown> } | { response: NextResponse }> {
+  const raw = await request.text();
+  if (Buffer.byteLength(raw, 'utf8') > PUZZLE_LIMITS.maxPayloadBytes) {
+    return {
+      response: NextResponse.json(
+        { error: 'Puzzle is too large' },
+        { status: 413 }
+      ),
+    };
+  }
+
+  let body: unknown = null;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    // Unparseable bodies get the same answer as non-objects
+  }
+
+  if (!isRecord(body)) {
+    return {
+      response: NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      ),
+    };
+  }
+  return { body };
+}
+
+/**
+ * Load a puzzle and check the request's edit token against it
+ */
+async function loadOwnedPuzzle(
+  request: NextRequest,
+  id: unknown
+): Promise<{ id: string; puzzle: StoredPuzzle } | { response: NextResponse }> {
+  const puzzle = isValidPuzzleId(id) ? await getPuzzleStorage().get(id) : null;
+
+  if (!isValidPuzzleId(id) || !puzzle) {
+    return {
+      response: NextResponse.json(
+        { error: 'Puzzle not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (!verifyEditToken(request.headers.get(EDIT_TOKEN_HEADER), puzzle.editTokenHash)) {
+    return {
+      response: NextResponse.json(
+        { error: 'Invalid edit token' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { id, puzzle };
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { id, gameInfo } = body;
+    const parsed = await readJsonBody(request);
+    if ('response' in parsed) return parsed.response;
+    const { id, gameInfo, checkDictionary } = parsed.body;
 
     if (!id || !gameInfo) {
       return NextResponse.json(
@@ -16,13 +86,40 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Save puzzle
-    puzzleStore[id] = {
-      ...gameInfo,
-      createdAt: new Date().toISOString(),
-    };
+    if (!isValidPuzzleId(id)) {
+      return NextResponse.json(
+        { error: 'Invalid puzzle id' },
+        { status: 400 }
+      );
+    }
 
-    return NextResponse.json({ success: true, id });
+    const blocked = await getBlockedWords();
+    const validation = validateGameInfo(gameInfo, {
+      // Check words against the list the puzzle says it was built from
+      isWord: checkDictionary ? isDictionaryWord : undefined,
+      isBlocked: (word) => blocked.has(word),
+    });
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid puzzle', errors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    // Save puzzle, never overwriting someone else's puzzle with a colliding id
+    const editToken = generateEditToken();
+    const stored = createStoredPuzzle(validation.gameInfo, hashEditToken(editToken));
+    const created = await getPuzzleStorage().update(id, (existing) =>
+      existing ? null : { ...stored, difficulty: ratePuzzle(stored) }
+    );
+    if (!created) {
+      return NextResponse.json(
+        { error: 'A puzzle with this id already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, id, editToken });
   } catch (error) {
     console.error('Error saving puzzle:', error);
     return NextResponse.json(
@@ -32,10 +129,103 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export async function PUT(request: NextRequest) {
+  try {
+    const parsed = await readJsonBody(request);
+    if ('response' in parsed) return parsed.response;
+    const { id, gameInfo, checkDictionary, editor } = parsed.body;
+
+    if (!id || !gameInfo) {
+      return NextResponse.json(
+        { error: 'Missing id or gameInfo' },
+        { status: 400 }
+      );
+    }
+
+    if (editor !== undefined && (typeof editor !== 'string' || editor.length > PUZZLE_LIMITS.maxAuthorLength)) {
+      return NextResponse.json(
+        { error: 'Invalid editor name' },
+        { status: 400 }
+      );
+    }
+
+    const owned = await loadOwnedPuzzle(request, id);
+    if ('response' in owned) return owned.response;
+
+    const blocked = await getBlockedWords();
+    const validation = validateGameInfo(gameInfo, {
+      isWord: checkDictionary ? isDictionaryWord : undefined,
+      isBlocked: (word) => blocked.has(word),
+    });
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Invalid puzzle', errors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    // Edits never overwrite history; players can still load older revisions.
+    // Revise the stored copy inside the update so solves recorded meanwhile are kept.
+    const editorName = typeof editor === 'string' ? editor.trim() : undefined;
+    const updated = await getPuzzleStorage().update(owned.id, (current) => {
+      if (!current) return null;
+      const revised = appendRevision(current, validation.gameInfo, editorName);
+      return { ...revised, difficulty: ratePuzzle(revised) };
+    });
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Puzzle not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, id, puzzle: toPublicPuzzle(updated) });
+  } catch (error) {
+    console.error('Error updating puzzle:', error);
+    return NextResponse.json(
+      { error: 'Failed to update puzzle' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Missing puzzle id' },
+        { status: 400 }
+      );
+    }
+
+    const owned = await loadOwnedPuzzle(request, id);
+    if ('response' in owned) return owned.response;
+
+    await getPuzzleStorage().delete(id);
+
+    return NextResponse.json({ success: true, id });
+  } catch (error) {
+    console.error('Error deleting puzzle:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete puzzle' },
+      { status: 500 }
+    );
+  }
+}
+
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
+    const rev = searchParams.get('rev');
+
+    // Without an id, list published puzzles (unlisted ones excluded)
+    if (id === null) {
+      const records = await getPuzzleStorage().list();
+      return NextResponse.json(queryPuzzles(records, parsePuzzleListQuery(searchParams)));
+    }
 
     if (!id) {
       return NextResponse.json(
@@ -44,7 +234,15 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const puzzle = puzzleStore[id];
+    const revision = rev === null ? undefined : Number(rev);
+    if (revision !== undefined && (!Number.isInteger(revision) || revision < 1)) {
+      return NextResponse.json(
+        { error: 'Invalid revision number' },
+        { status: 400 }
+      );
+    }
+
+    const puzzle = isValidPuzzleId(id) ? await getPuzzleStorage().get(id) : null;
 
     if (!puzzle) {
       return NextResponse.json(
@@ -53,7 +251,16 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    return NextResponse.json(puzzle);
+    const publicPuzzle = toPublicPuzzle(withDifficulty(puzzle), revision);
+
+    if (!publicPuzzle) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(publicPuzzle);
   } catch (error) {
     console.error('Error loading puzzle:', error);
     return NextResponse.json(
@@ -62,4 +269,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
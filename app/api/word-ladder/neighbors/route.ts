@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WordNeighbor } from '@/types/game';
+import { commonnessScore, hasWord, loadDictionary, wordNeighbors } from '@/utils/dictionaryData';
+import { hasCommonness } from '@/utils/wordCommonness';
+import { PUZZLE_LIMITS } from '@/utils/puzzleValidation';
+import { getBlockedWords } from '@/utils/wordBlocklist';
+import { DEFAULT_DICTIONARY, DICTIONARIES, getDictionary, isDictionaryId } from '@/utils/dictionaries';
+import { isLanguageWord, normalizeWord } from '@/utils/languages';
+
+/**
+ * Dictionary words one letter change away from a word, most common first:
+ * ?word=CAT&dictionary=collins
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const rawWord = searchParams.get('word')?.trim();
+    const dictionaryId = searchParams.get('dictionary') || DEFAULT_DICTIONARY;
+
+    if (!rawWord) {
+      return NextResponse.json(
+        { error: 'Missing word' },
+        { status: 400 }
+      );
+    }
+
+    if (!isDictionaryId(dictionaryId)) {
+      return NextResponse.json(
+        { error: `dictionary must be one of ${DICTIONARIES.map((d) => d.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { language } = getDictionary(dictionaryId)!;
+    const word = normalizeWord(rawWord, language);
+    if (
+      !isLanguageWord(word, language) ||
+      word.length < PUZZLE_LIMITS.minWordLength ||
+      word.length > PUZZLE_LIMITS.maxWordLength
+    ) {
+      return NextResponse.json(
+        { error: `word must be ${PUZZLE_LIMITS.minWordLength}-${PUZZLE_LIMITS.maxWordLength} letters` },
+        { status: 400 }
+      );
+    }
+
+    const dictionary = loadDictionary(word.length, dictionaryId);
+    if (!dictionary) {
+      return NextResponse.json(
+        { error: `${dictionaryId} dictionary for ${word.length}-letter words not found. Please run preprocessing first.` },
+        { status: 404 }
+      );
+    }
+
+    if (!hasWord(dictionary, word)) {
+      return NextResponse.json(
+        { error: `"${word}" is not in the ${dictionaryId} dictionary` },
+        { status: 404 }
+      );
+    }
+
+    const blocked = await getBlockedWords(dictionary);
+    const scored = hasCommonness(dictionary);
+    const letters = Array.from(word);
+    const neighbors: WordNeighbor[] = wordNeighbors(dictionary, word)
+      .filter((neighbor) => !blocked.has(neighbor))
+      .map((neighbor) => {
+        const entry: WordNeighbor = {
+          word: neighbor,
+          position: Array.from(neighbor).findIndex((letter, i) => letter !== letters[i]),
+        };
+        if (scored) entry.commonness = commonnessScore(dictionary, neighbor);
+        return entry;
+      })
+      .sort((a, b) => (b.commonness || 0) - (a.commonness || 0) || a.word.localeCompare(b.word));
+
+    return NextResponse.json({
+      success: true,
+      word,
+      neighbors,
+    });
+  } catch (error) {
+    console.error('Error in word neighbors API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
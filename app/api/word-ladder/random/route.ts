@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LadderDifficulty } from '@/types/game';
+import { loadDictionary } from '@/utils/dictionaryData';
+import { PUZZLE_LIMITS } from '@/utils/puzzleValidation';
+import { LADDER_DIFFICULTIES, restrictNeighbors } from '@/utils/wordCommonness';
+import { getBlockedWords } from '@/utils/wordBlocklist';
+import { formsCompound, pickRandomLadder } from '@/utils/randomLadder';
+import { DEFAULT_DICTIONARY, DICTIONARIES, hasCompoundIndex, isDictionaryId } from '@/utils/dictionaries';
+
+/**
+ * "Surprise me": pick a random ladder from just a word length and rung count.
+ * Body: { wordLength, rungs, difficulty?, preferCompound?, dictionary? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      wordLength,
+      rungs,
+      difficulty,
+      preferCompound,
+      dictionary: dictionaryId = DEFAULT_DICTIONARY,
+    } = (await request.json()) ?? {};
+
+    if (
+      !Number.isInteger(wordLength) ||
+      wordLength < PUZZLE_LIMITS.minWordLength ||
+      wordLength > PUZZLE_LIMITS.maxWordLength
+    ) {
+      return NextResponse.json(
+        { error: `wordLength must be between ${PUZZLE_LIMITS.minWordLength} and ${PUZZLE_LIMITS.maxWordLength}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(rungs) || rungs < 1 || rungs > PUZZLE_LIMITS.maxMiddleWords) {
+      return NextResponse.json(
+        { error: `rungs must be between 1 and ${PUZZLE_LIMITS.maxMiddleWords}` },
+        { status: 400 }
+      );
+    }
+
+    if (difficulty !== undefined && !LADDER_DIFFICULTIES.includes(difficulty)) {
+      return NextResponse.json(
+        { error: `difficulty must be one of ${LADDER_DIFFICULTIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isDictionaryId(dictionaryId)) {
+      return NextResponse.json(
+        { error: `dictionary must be one of ${DICTIONARIES.map((d) => d.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (preferCompound === true && !hasCompoundIndex(dictionaryId)) {
+      return NextResponse.json(
+        { error: `preferCompound needs a dictionary with a compound index (${DEFAULT_DICTIONARY})` },
+        { status: 400 }
+      );
+    }
+
+    const dictionary = loadDictionary(wordLength, dictionaryId);
+
+    if (!dictionary) {
+      return NextResponse.json(
+        { error: `${dictionaryId} dictionary for ${wordLength}-letter words not found. Please run preprocessing first.` },
+        { status: 404 }
+      );
+    }
+
+    // Edge words are picked by us too, so they get the same filtering as rungs
+    const level: LadderDifficulty = difficulty ?? 'obscure';
+    const neighbors = restrictNeighbors(dictionary, level, [], await getBlockedWords(dictionary));
+    const path = pickRandomLadder(dictionary, neighbors, {
+      rungs,
+      preferCompound: preferCompound === true,
+      dictionaryId,
+    });
+
+    if (!path) {
+      return NextResponse.json(
+        { error: `Couldn't find a ${wordLength}-letter ladder with exactly ${rungs} rungs. Try fewer rungs.` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      path,
+      length: path.length,
+      compound: formsCompound(path[0], path[path.length - 1], dictionaryId),
+    });
+  } catch (error) {
+    console.error('Error in random word-ladder API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,151 +1,315 @@
 import { NextRequest, NextResponse } from 'next/server';
-import * as fs from 'fs';
-import * as path from 'path';
+import { LadderConstraints, LadderDifficulty, LadderRules, LanguageId } from '@/types/game';
+import {
+  DictionaryData,
+  areConnected,
+  commonnessScore,
+  hasBlockedFlag,
+  hasWord,
+  loadDictionary,
+} from '@/utils/dictionaryData';
+import { PUZZLE_LIMITS } from '@/utils/puzzleValidation';
+import {
+  annotateLadders,
+  findAllShortestPaths,
+  findShortestPath,
+  findSimplePaths,
+  SimplePathResult,
+} from '@/utils/ladderPaths';
+import {
+  DIFFICULTY_MIN_COMMONNESS,
+  hasCommonness,
+  LADDER_DIFFICULTIES,
+  rankByCommonness,
+  restrictNeighbors,
+} from '@/utils/wordCommonness';
+import { getBlockedWords } from '@/utils/wordBlocklist';
+import { LADDER_RULES, searchLadder } from '@/utils/wordLadder';
+import { loadVariantEdges, variantNeighbors } from '@/utils/variantLadders';
+import { DEFAULT_DICTIONARY, DICTIONARIES, getDictionary, isDictionaryId } from '@/utils/dictionaries';
+import { normalizeWord } from '@/utils/languages';
 
-interface DictionaryData {
-  words: string[];
-  graph: Record<string, string[]>; // word -> array of neighbor words
-  groups: Record<number, string[]>; // groupId -> array of words in that group
-}
-
-// Cache loaded dictionaries in memory
-const dictionaryCache: Map<number, DictionaryData> = new Map();
+const DEFAULT_CANDIDATES = 10;
+const MAX_CANDIDATES = 50;
+// A published puzzle can't hold a longer ladder anyway
+const MAX_LADDER_LENGTH = PUZZLE_LIMITS.maxMiddleWords + 2;
+const MAX_CONSTRAINT_WORDS = 20;
+// Ladders gathered before ranking by commonness and keeping the best `limit`
+const RANKING_POOL = 200;
 
 /**
- * Load dictionary for a specific word length
+ * Check and normalize the optional `constraints` body field.
+ * Returns the cleaned constraints or an error message.
  */
-function loadDictionary(wordLength: number): DictionaryData | null {
-  // Check cache first
-  if (dictionaryCache.has(wordLength)) {
-    return dictionaryCache.get(wordLength)!;
+function parseConstraints(
+  input: unknown,
+  start: string,
+  end: string,
+  dictionary: DictionaryData,
+  language: LanguageId
+): { constraints: Required<LadderConstraints> } | { error: string } {
+  const raw = (input ?? {}) as Record<string, unknown>;
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'constraints must be an object' };
   }
 
-  try {
-    const filePath = path.join(process.cwd(), 'data', `words-${wordLength}.json`);
-    
-    if (!fs.existsSync(filePath)) {
-      return null;
-    }
-
-    const fileContent = fs.readFileSync(filePath, 'utf-8');
-    const data: DictionaryData = JSON.parse(fileContent);
-    
-    // Cache it
-    dictionaryCache.set(wordLength, data);
-    
-    return data;
-  } catch (error) {
-    console.error(`Error loading dictionary for length ${wordLength}:`, error);
-    return null;
+  const rungs = (value: unknown, fallback: number): number | null => {
+    if (value === undefined || value === null) return fallback;
+    return typeof value === 'number' &&
+      Number.isInteger(value) &&
+      value >= 1 &&
+      value <= PUZZLE_LIMITS.maxMiddleWords
+      ? value
+      : null;
+  };
+  const minRungs = rungs(raw.minRungs, 1);
+  const maxRungs = rungs(raw.maxRungs, PUZZLE_LIMITS.maxMiddleWords);
+  if (minRungs === null || maxRungs === null) {
+    return { error: `Rung counts must be whole numbers from 1 to ${PUZZLE_LIMITS.maxMiddleWords}` };
+  }
+  if (minRungs > maxRungs) {
+    return { error: 'The minimum number of rungs is larger than the maximum' };
+  }
+
+  const words = (value: unknown, name: string): string[] | string => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value) || value.some((word) => typeof word !== 'string')) {
+      return `${name} must be a list of words`;
+    }
+    if (value.length > MAX_CONSTRAINT_WORDS) {
+      return `${name} can have at most ${MAX_CONSTRAINT_WORDS} words`;
+    }
+    const cleaned = value.map((word: string) => normalizeWord(word.trim(), language)).filter(Boolean);
+    const wrongLength = cleaned.find((word) => word.length !== start.length);
+    if (wrongLength) {
+      return `"${wrongLength}" must have ${start.length} letters like the edge words`;
+    }
+    return Array.from(new Set(cleaned));
+  };
+  const via = words(raw.via, 'via');
+  if (typeof via === 'string') return { error: via };
+  const avoid = words(raw.avoid, 'avoid');
+  if (typeof avoid === 'string') return { error: avoid };
+
+  const unknownWord = via.find((word) => !hasWord(dictionary, word));
+  if (unknownWord) {
+    return { error: `"${unknownWord}" is not in the dictionary` };
+  }
+  const edgeWaypoint = via.find((word) => word === start || word === end);
+  if (edgeWaypoint) {
+    return { error: `"${edgeWaypoint}" is already an edge word and can't be a waypoint` };
   }
+  const conflict = via.find((word) => avoid.includes(word)) || [start, end].find((word) => avoid.includes(word));
+  if (conflict) {
+    return { error: `"${conflict}" is both required and avoided` };
+  }
+  if (via.length > maxRungs) {
+    return { error: `${via.length} waypoints don't fit in ${maxRungs} rungs` };
+  }
+
+  return { constraints: { minRungs, maxRungs, via, avoid } };
 }
 
 /**
- * Find shortest path using BFS
+ * Explain why a constrained search came back empty
  */
-function findShortestPath(
-  startWord: string,
-  endWord: string,
-  graph: Record<string, string[]>
-): string[] | null {
-  const start = startWord.toUpperCase();
-  const end = endWord.toUpperCase();
-
-  if (!graph[start] || !graph[end]) {
-    return null; // Words not in dictionary
+function describeUnsatisfiable(
+  { minRungs, maxRungs, via, avoid }: Required<LadderConstraints>,
+  { shortestPossible, unreachable, exhausted }: SimplePathResult
+): string {
+  if (unreachable) {
+    const conditions = [
+      via.length > 0 && 'through the required words in order',
+      avoid.length > 0 && 'without the avoided words',
+    ].filter(Boolean);
+    return `No ladder can reach "${unreachable}"${conditions.length ? ` ${conditions.join(' and ')}` : ''}`;
   }
-
-  if (start === end) {
-    return [start];
+  if (shortestPossible !== null && shortestPossible - 2 > maxRungs) {
+    return `These constraints need at least ${shortestPossible - 2} rungs, but at most ${maxRungs} were allowed`;
   }
-
-  // BFS to find shortest path
-  const visited = new Set<string>();
-  const queue: { word: string; path: string[] }[] = [{ word: start, path: [start] }];
-  visited.add(start);
-
-  while (queue.length > 0) {
-    const { word, path } = queue.shift()!;
-
-    if (word === end) {
-      return path;
-    }
-
-    // Check all neighbors
-    const neighbors = graph[word] || [];
-    for (const neighbor of neighbors) {
-      if (!visited.has(neighbor)) {
-        visited.add(neighbor);
-        queue.push({ word: neighbor, path: [...path, neighbor] });
-      }
-    }
+  if (exhausted) {
+    return 'The search gave up before finding a ladder; try a wider rung range or fewer waypoints';
   }
-
-  return null; // No path found
+  const range = minRungs === maxRungs ? `exactly ${minRungs}` : `${minRungs} to ${maxRungs}`;
+  return `No ladder with ${range} rungs satisfies these constraints`;
 }
 
 /**
- * Check if two words are in the same connectivity group
+ * Shortest ladder under the add/drop or anagram rules. These graphs span
+ * several files, so only the single shortest ladder is offered.
  */
-function areInSameGroup(
-  word1: string,
-  word2: string,
-  groups: Record<number, string[]>
-): boolean {
-  const w1 = word1.toUpperCase();
-  const w2 = word2.toUpperCase();
-
-  for (const group of Object.values(groups)) {
-    const groupSet = new Set(group);
-    if (groupSet.has(w1) && groupSet.has(w2)) {
-      return true;
+async function variantLadder(
+  start: string,
+  end: string,
+  rules: Exclude<LadderRules, 'classic'>,
+  level: LadderDifficulty,
+  maxLength: number | undefined,
+  asCandidates: boolean,
+  dictionaryId: string
+) {
+  for (const word of [start, end]) {
+    const dictionary = loadDictionary(word.length, dictionaryId);
+    if (!dictionary || !loadVariantEdges(word.length, dictionaryId)) {
+      return NextResponse.json(
+        { error: `Word data for ${word.length}-letter ${dictionaryId} words not found. Please run preprocessing first.` },
+        { status: 404 }
+      );
     }
+    if (!hasWord(dictionary, word)) {
+      return NextResponse.json(
+        { error: 'One or both words not found in dictionary' },
+        { status: 400 }
+      );
+    }
+  }
+
+  // Ladders change length, so each word is checked against the flags in the
+  // dictionary for its own length as well as the maintained list
+  const blocked = await getBlockedWords();
+  const isBlocked = (word: string) => {
+    if (blocked.has(word)) return true;
+    const dictionary = loadDictionary(word.length, dictionaryId);
+    return !!dictionary && hasBlockedFlag(dictionary, word);
+  };
+  const blockedWord = [start, end].find(isBlocked);
+  if (blockedWord) {
+    return NextResponse.json(
+      { error: `"${blockedWord}" isn't allowed in puzzles` },
+      { status: 400 }
+    );
   }
 
-  return false;
+  // Same filtering as restrictNeighbors, applied per word since lengths vary
+  let restricted = false;
+  const allowed = (word: string) => {
+    if (word === start || word === end) return true;
+    if (isBlocked(word)) return false;
+    const dictionary = loadDictionary(word.length, dictionaryId);
+    if (!dictionary || !hasCommonness(dictionary)) return true;
+    restricted ||= DIFFICULTY_MIN_COMMONNESS[level] > 0;
+    return commonnessScore(dictionary, word) >= DIFFICULTY_MIN_COMMONNESS[level];
+  };
+
+  const path = searchLadder(start, end, variantNeighbors(rules, allowed, dictionaryId), {
+    maxLength: maxLength ?? MAX_LADDER_LENGTH,
+  });
+  if (!path || path.length < 2) {
+    const message = 'No valid word ladder path found';
+    return NextResponse.json(
+      { error: restricted ? `${message} using only ${level} words. Try allowing obscure words.` : message },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    path,
+    length: path.length,
+    ...(asCandidates && { paths: annotateLadders([path]) }),
+  });
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { startWord, endWord } = body;
+    const body = (await request.json()) ?? {};
+    const { startWord, endWord, alternatives, limit, maxLength, constraints, difficulty, rules, dictionary: dictionaryId = DEFAULT_DICTIONARY } =
+      body;
 
-    if (!startWord || !endWord) {
+    if (typeof startWord !== 'string' || typeof endWord !== 'string' || !startWord.trim() || !endWord.trim()) {
       return NextResponse.json(
         { error: 'Missing startWord or endWord' },
         { status: 400 }
       );
     }
 
-    const start = startWord.toUpperCase().trim();
-    const end = endWord.toUpperCase().trim();
+    if (!isDictionaryId(dictionaryId)) {
+      return NextResponse.json(
+        { error: `dictionary must be one of ${DICTIONARIES.map((d) => d.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Words are spelled the way the dictionary's language spells them
+    const { language } = getDictionary(dictionaryId)!;
+    const start = normalizeWord(startWord.trim(), language);
+    const end = normalizeWord(endWord.trim(), language);
+
+    if (rules !== undefined && !LADDER_RULES.includes(rules)) {
+      return NextResponse.json(
+        { error: `rules must be one of ${LADDER_RULES.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
-    if (start.length !== end.length) {
+    // Only the add/drop rules let a ladder change length
+    if (start.length !== end.length && rules !== 'add-drop') {
       return NextResponse.json(
         { error: 'Start and end words must have the same length' },
         { status: 400 }
       );
     }
 
-    if (start.length < 2 || start.length > 15) {
+    if ([start, end].some((word) => word.length < 2 || word.length > 15)) {
       return NextResponse.json(
         { error: 'Word length must be between 2 and 15 letters' },
         { status: 400 }
       );
     }
 
+    if (alternatives !== undefined && alternatives !== 'all-shortest' && alternatives !== 'top-k') {
+      return NextResponse.json(
+        { error: 'alternatives must be "all-shortest" or "top-k"' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_CANDIDATES)) ||
+      (maxLength !== undefined && (!Number.isInteger(maxLength) || maxLength < 2 || maxLength > MAX_LADDER_LENGTH))
+    ) {
+      return NextResponse.json(
+        { error: `limit must be 1-${MAX_CANDIDATES} and maxLength 2-${MAX_LADDER_LENGTH}` },
+        { status: 400 }
+      );
+    }
+
+    if (difficulty !== undefined && !LADDER_DIFFICULTIES.includes(difficulty)) {
+      return NextResponse.json(
+        { error: `difficulty must be one of ${LADDER_DIFFICULTIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (rules && rules !== 'classic') {
+      if (constraints !== undefined) {
+        return NextResponse.json(
+          { error: 'Rung counts, waypoints and words to avoid are only supported for classic ladders' },
+          { status: 400 }
+        );
+      }
+      return await variantLadder(
+        start,
+        end,
+        rules,
+        difficulty ?? 'obscure',
+        maxLength,
+        alternatives !== undefined,
+        dictionaryId
+      );
+    }
+
     // Load dictionary for this word length
-    const dictionary = loadDictionary(start.length);
+    const dictionary = loadDictionary(start.length, dictionaryId);
 
     if (!dictionary) {
       return NextResponse.json(
-        { error: `Dictionary for ${start.length}-letter words not found. Please run preprocessing first.` },
+        { error: `${dictionaryId} dictionary for ${start.length}-letter words not found. Please run preprocessing first.` },
         { status: 404 }
       );
     }
 
     // Check if words exist in dictionary
-    if (!dictionary.graph[start] || !dictionary.graph[end]) {
+    if (!hasWord(dictionary, start) || !hasWord(dictionary, end)) {
       return NextResponse.json(
         { error: 'One or both words not found in dictionary' },
         { status: 400 }
@@ -154,28 +318,110 @@ export async function POST(request: NextRequest) {
 
     // Check if words are in the same connectivity group (quick check before BFS)
     // This is an optimization: if words aren't in the same group, they can't be connected
-    if (!areInSameGroup(start, end, dictionary.groups)) {
+    if (!areConnected(dictionary, start, end)) {
       return NextResponse.json(
         { error: 'Words are not connected. These words cannot be transformed into each other through valid word ladder steps.' },
         { status: 400 }
       );
     }
 
-    // Find shortest path
-    const path = findShortestPath(start, end, dictionary.graph);
+    let parsedConstraints: Required<LadderConstraints> | null = null;
+    if (constraints !== undefined) {
+      const parsed = parseConstraints(constraints, start, end, dictionary, language);
+      if ('error' in parsed) {
+        return NextResponse.json(
+          { error: parsed.error },
+          { status: 400 }
+        );
+      }
+      parsedConstraints = parsed.constraints;
+    }
 
-    if (!path || path.length < 2) {
+    // Blocked words stay in the dictionary graph but are never offered
+    const blocked = await getBlockedWords(dictionary);
+    const required = [start, end, ...(parsedConstraints?.via ?? [])];
+    const blockedWord = required.find((word) => blocked.has(word));
+    if (blockedWord) {
       return NextResponse.json(
-        { error: 'No valid word ladder path found' },
+        { error: `"${blockedWord}" isn't allowed in puzzles` },
+        { status: 400 }
+      );
+    }
+
+    const count = limit ?? DEFAULT_CANDIDATES;
+    const level: LadderDifficulty = difficulty ?? 'obscure';
+    const neighbors = restrictNeighbors(dictionary, level, required, blocked);
+    // Gather extra ladders when they can be ranked, so the most common ones win
+    const ranked = hasCommonness(dictionary);
+    const restricted = ranked && DIFFICULTY_MIN_COMMONNESS[level] > 0;
+    const searchLimit = ranked ? Math.max(count, RANKING_POOL) : count;
+
+    const notFound = (message: string) =>
+      NextResponse.json(
+        { error: restricted ? `${message} using only ${level} words. Try allowing obscure words.` : message },
         { status: 404 }
       );
+
+    const respond = (paths: string[][]) => {
+      const best = ranked ? rankByCommonness(paths, dictionary).slice(0, count) : paths;
+      // `path` stays the best ladder for callers that only read one
+      return NextResponse.json({
+        success: true,
+        path: best[0],
+        length: best[0].length,
+        paths: annotateLadders(best, ranked ? dictionary : undefined),
+      });
+    };
+
+    // Constraints imply a search over longer simple paths
+    if (parsedConstraints) {
+      const { minRungs, maxRungs, via, avoid } = parsedConstraints;
+      const result = findSimplePaths(start, end, neighbors, {
+        minLength: minRungs + 2,
+        maxLength: maxRungs + 2,
+        limit: searchLimit,
+        via,
+        avoid,
+      });
+
+      if (result.paths.length === 0) {
+        return notFound(describeUnsatisfiable(parsedConstraints, result));
+      }
+      return respond(result.paths);
+    }
+
+    // Without alternatives, keep the original single-path response
+    if (!alternatives) {
+      const path = restricted
+        ? rankByCommonness(findAllShortestPaths(start, end, neighbors, RANKING_POOL), dictionary)[0]
+        : findShortestPath(start, end, neighbors);
+
+      if (!path || path.length < 2) {
+        return notFound('No valid word ladder path found');
+      }
+
+      return NextResponse.json({
+        success: true,
+        path,
+        length: path.length,
+      });
+    }
+
+    const paths =
+      alternatives === 'all-shortest'
+        ? findAllShortestPaths(start, end, neighbors, searchLimit)
+        : findSimplePaths(start, end, neighbors, {
+            maxLength: maxLength ?? MAX_LADDER_LENGTH,
+            limit: searchLimit,
+          }).paths;
+
+    if (paths.length === 0 || paths[0].length < 2) {
+      return notFound(
+        maxLength ? `No word ladder of at most ${maxLength} words found` : 'No valid word ladder path found'
+      );
     }
 
-    return NextResponse.json({
-      success: true,
-      path,
-      length: path.length,
-    });
+    return respond(paths);
   } catch (error) {
     console.error('Error in word-ladder API:', error);
     return NextResponse.json(
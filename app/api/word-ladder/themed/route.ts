@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LadderDifficulty } from '@/types/game';
+import { loadDictionary } from '@/utils/dictionaryData';
+import { PUZZLE_LIMITS } from '@/utils/puzzleValidation';
+import { LADDER_DIFFICULTIES, restrictNeighbors } from '@/utils/wordCommonness';
+import { getBlockedWords } from '@/utils/wordBlocklist';
+import { findThemedLadder } from '@/utils/themedLadder';
+import { DEFAULT_DICTIONARY, DICTIONARIES, getDictionary, isDictionaryId } from '@/utils/dictionaries';
+import { isLanguageWord, normalizeWord } from '@/utils/languages';
+
+const MAX_THEME_WORDS = 5000;
+// A published puzzle can't hold a longer ladder anyway
+const MAX_LADDER_LENGTH = PUZZLE_LIMITS.maxMiddleWords + 2;
+
+/**
+ * Ladder that only uses words from the author's own list.
+ * Body: { startWord, endWord, words, allowConnectors?, difficulty?, dictionary? }
+ * With `allowConnectors`, dictionary words may fill gaps; they are listed in `offTheme`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      startWord,
+      endWord,
+      words,
+      allowConnectors,
+      difficulty,
+      dictionary: dictionaryId = DEFAULT_DICTIONARY,
+    } = (await request.json()) ?? {};
+
+    if (typeof startWord !== 'string' || typeof endWord !== 'string' || !startWord.trim() || !endWord.trim()) {
+      return NextResponse.json(
+        { error: 'Missing startWord or endWord' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(words) ||
+      words.length === 0 ||
+      words.length > MAX_THEME_WORDS ||
+      words.some((word) => typeof word !== 'string')
+    ) {
+      return NextResponse.json(
+        { error: `words must be a list of 1-${MAX_THEME_WORDS} words` },
+        { status: 400 }
+      );
+    }
+
+    if (difficulty !== undefined && !LADDER_DIFFICULTIES.includes(difficulty)) {
+      return NextResponse.json(
+        { error: `difficulty must be one of ${LADDER_DIFFICULTIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isDictionaryId(dictionaryId)) {
+      return NextResponse.json(
+        { error: `dictionary must be one of ${DICTIONARIES.map((d) => d.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { language } = getDictionary(dictionaryId)!;
+    const start = normalizeWord(startWord.trim(), language);
+    const end = normalizeWord(endWord.trim(), language);
+
+    if (start.length !== end.length) {
+      return NextResponse.json(
+        { error: 'Start and end words must have the same length' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      [start, end].some(
+        (word) =>
+          !isLanguageWord(word, language) ||
+          word.length < PUZZLE_LIMITS.minWordLength ||
+          word.length > PUZZLE_LIMITS.maxWordLength
+      )
+    ) {
+      return NextResponse.json(
+        {
+          error: `Start and end words must be ${PUZZLE_LIMITS.minWordLength}-${PUZZLE_LIMITS.maxWordLength} letters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Connectors come from the dictionary; the theme list alone needs none
+    const dictionary = allowConnectors === true ? loadDictionary(start.length, dictionaryId) : null;
+    if (allowConnectors === true && !dictionary) {
+      return NextResponse.json(
+        { error: `${dictionaryId} dictionary for ${start.length}-letter words not found. Please run preprocessing first.` },
+        { status: 404 }
+      );
+    }
+
+    const blocked = await getBlockedWords(dictionary);
+    const blockedWord = [start, end].find((word) => blocked.has(word));
+    if (blockedWord) {
+      return NextResponse.json(
+        { error: `"${blockedWord}" isn't allowed in puzzles` },
+        { status: 400 }
+      );
+    }
+
+    // Words of other lengths can't appear in a classic ladder between these two
+    const theme = Array.from(
+      new Set(words.map((word: string) => normalizeWord(word.trim(), language)))
+    ).filter((word) => word.length === start.length && isLanguageWord(word, language) && !blocked.has(word));
+
+    const level: LadderDifficulty = difficulty ?? 'obscure';
+    const connectors = dictionary ? restrictNeighbors(dictionary, level, [start, end], blocked) : undefined;
+    const ladder = findThemedLadder(start, end, theme, MAX_LADDER_LENGTH, connectors);
+
+    if (!ladder) {
+      return NextResponse.json(
+        {
+          error: connectors
+            ? `No ladder connects "${start}" and "${end}", even with dictionary words as connectors`
+            : `No ladder connects "${start}" and "${end}" using only your ${theme.length} ${start.length}-letter words. Try allowing dictionary words as connectors.`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      path: ladder.path,
+      length: ladder.path.length,
+      offTheme: ladder.offTheme,
+    });
+  } catch (error) {
+    console.error('Error in themed word-ladder API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { DifficultyLevel, PuzzleSort, PuzzleSummary } from '@/types/game';
+import DifficultyBadge, { DIFFICULTY_LABELS } from '@/components/DifficultyBadge';
+
+const PAGE_SIZE = 20;
+
+const SORT_LABELS: Record<PuzzleSort, string> = {
+  newest: 'Newest',
+  'most-played': 'Most played',
+  fastest: 'Fastest average',
+};
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+export default function BrowsePage() {
+  const router = useRouter();
+  const [puzzles, setPuzzles] = useState<PuzzleSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<PuzzleSort>('newest');
+  const [search, setSearch] = useState('');
+  const [author, setAuthor] = useState('');
+  const [wordLength, setWordLength] = useState('');
+  const [rungs, setRungs] = useState('');
+  const [difficulty, setDifficulty] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const query = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE), sort });
+    if (search.trim()) query.set('q', search.trim());
+    if (author.trim()) query.set('author', author.trim());
+    if (wordLength) query.set('wordLength', wordLength);
+    if (rungs) query.set('rungs', rungs);
+    if (difficulty) query.set('difficulty', difficulty);
+
+    // Debounce typing in the text filters
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/puzzle?${query}`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data = await response.json();
+        setPuzzles(data.puzzles);
+        setTotal(data.total);
+        setError(null);
+      } catch (err) {
+        console.error('Error loading puzzles:', err);
+        setError('Failed to load puzzles');
+      } finally {
+        setLoading(false);
+      }
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [page, sort, search, author, wordLength, rungs, difficulty]);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Any filter change starts again from the first page
+  const withPageReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const inputClass =
+    'p-2 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-100 to-gray-200 p-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <button
+          onClick={() => router.push('/')}
+          className="text-[#0077B5] hover:text-[#006399] mb-4 font-medium"
+        >
+          ← Back
+        </button>
+
+        <div className="bg-white rounded-lg p-6 space-y-6 shadow-lg border border-gray-200">
+          <h2 className="text-2xl font-bold text-gray-800">Browse Puzzles</h2>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => withPageReset(setSearch)(e.target.value)}
+              className={`${inputClass} col-span-2 md:col-span-3`}
+              placeholder="Search titles"
+            />
+            <input
+              type="text"
+              value={author}
+              onChange={(e) => withPageReset(setAuthor)(e.target.value)}
+              className={inputClass}
+              placeholder="Author"
+            />
+            <select
+              value={wordLength}
+              onChange={(e) => withPageReset(setWordLength)(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Any word length</option>
+              {[2, 3, 4, 5, 6, 7, 8, 9, 10].map((n) => (
+                <option key={n} value={n}>{n} letters</option>
+              ))}
+            </select>
+            <select
+              value={rungs}
+              onChange={(e) => withPageReset(setRungs)(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Any number of rungs</option>
+              {Array.from({ length: 20 }, (_, i) => i + 1).map((n) => (
+                <option key={n} value={n}>{n} rungs</option>
+              ))}
+            </select>
+            <select
+              value={difficulty}
+              onChange={(e) => withPageReset(setDifficulty)(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Any difficulty</option>
+              {(Object.keys(DIFFICULTY_LABELS) as DifficultyLevel[]).map((level) => (
+                <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+              ))}
+            </select>
+            <select
+              value={sort}
+              onChange={(e) => withPageReset(setSort)(e.target.value as PuzzleSort)}
+              className={inputClass}
+            >
+              {(Object.keys(SORT_LABELS) as PuzzleSort[]).map((key) => (
+                <option key={key} value={key}>{SORT_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded">{error}</div>
+          )}
+
+          {!error && !loading && puzzles.length === 0 && (
+            <p className="text-gray-600">No puzzles match these filters.</p>
+          )}
+
+          <ul className="divide-y divide-gray-200">
+            {puzzles.map((puzzle) => (
+              <li key={puzzle.id} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <Link
+                    href={`/play/${puzzle.id}`}
+                    className="text-lg font-semibold text-[#0077B5] hover:text-[#006399] truncate block"
+                  >
+                    {puzzle.title}
+                  </Link>
+                  <p className="text-sm text-gray-600">
+                    {puzzle.author ? `by ${puzzle.author} · ` : ''}
+                    {puzzle.wordLength} letters · {puzzle.rungs} rungs{' '}
+                    <DifficultyBadge level={puzzle.difficulty} />
+                  </p>
+                </div>
+                <div className="text-right text-sm text-gray-600 shrink-0">
+                  <div>{puzzle.plays} {puzzle.plays === 1 ? 'solve' : 'solves'}</div>
+                  {puzzle.averageSeconds !== null && <div>avg {formatTime(puzzle.averageSeconds)}</div>}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1 || loading}
+              className="px-3 py-1 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-800 rounded text-sm font-medium"
+            >
+              ← Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {page} of {pageCount}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount || loading}
+              className="px-3 py-1 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-800 rounded text-sm font-medium"
+            >
+              Next →
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
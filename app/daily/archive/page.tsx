@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { DailyEntry } from '@/types/game';
+import { dateInTimeZone, localTimeZone } from '@/utils/dailyDates';
+import { DailyResult, getDailyResults } from '@/utils/dailyProgress';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Shift a YYYY-MM month by a number of months
+ */
+function addMonths(month: string, delta: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, monthIndex - 1 + delta, 1));
+  return shifted.toISOString().slice(0, 7);
+}
+
+export default function DailyArchivePage() {
+  const router = useRouter();
+  const today = useMemo(() => dateInTimeZone(new Date(), localTimeZone()), []);
+  const [month, setMonth] = useState(today.slice(0, 7));
+  const [days, setDays] = useState<DailyEntry[]>([]);
+  const [results, setResults] = useState<Record<string, DailyResult>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setResults(getDailyResults());
+  }, []);
+
+  useEffect(() => {
+    const loadArchive = async () => {
+      setLoading(true);
+      try {
+        const query = new URLSearchParams({ tz: localTimeZone(), month });
+        const response = await fetch(`/api/daily/archive?${query}`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data = await response.json();
+        setDays(data.days);
+        setError(null);
+      } catch (err) {
+        console.error('Error loading daily archive:', err);
+        setError('Failed to load past puzzles');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadArchive();
+  }, [month]);
+
+  const [year, monthIndex] = month.split('-').map(Number);
+  const firstWeekday = new Date(Date.UTC(year, monthIndex - 1, 1)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  const monthLabel = new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString(undefined, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+  const byDate = new Map(days.map((day) => [day.date, day]));
+  const solvedThisMonth = days.filter((day) => results[day.date]?.id === day.id).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-100 to-gray-200 p-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <button
+          onClick={() => router.push('/')}
+          className="text-[#0077B5] hover:text-[#006399] mb-4 font-medium"
+        >
+          ← Back
+        </button>
+
+        <div className="bg-white rounded-lg p-6 space-y-6 shadow-lg border border-gray-200">
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-2xl font-bold text-gray-800">Daily Puzzle Archive</h2>
+            <Link
+              href="/daily"
+              className="px-4 py-2 bg-[#0077B5] hover:bg-[#006399] text-white rounded-lg font-semibold"
+            >
+              Today&apos;s puzzle
+            </Link>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setMonth(addMonths(month, -1))}
+              className="px-3 py-1 bg-gray-200 hover:bg-gray-300 text-gray-800 rounded text-sm font-medium"
+            >
+              ← Previous
+            </button>
+            <div className="text-center">
+              <div className="text-lg font-semibold text-gray-800">{monthLabel}</div>
+              {!loading && days.length > 0 && (
+                <div className="text-sm text-gray-600">
+                  Solved {solvedThisMonth} of {days.length}
+                </div>
+              )}
+            </div>
+            <button
+              onClick={() => setMonth(addMonths(month, 1))}
+              disabled={month >= today.slice(0, 7)}
+              className="px-3 py-1 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-800 rounded text-sm font-medium"
+            >
+              Next →
+            </button>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded">{error}</div>
+          )}
+
+          <div className="grid grid-cols-7 gap-2">
+            {WEEKDAYS.map((weekday) => (
+              <div key={weekday} className="text-center text-xs font-semibold text-gray-500 uppercase">
+                {weekday}
+              </div>
+            ))}
+            {Array.from({ length: firstWeekday }, (_, i) => (
+              <div key={`blank-${i}`} />
+            ))}
+            {Array.from({ length: daysInMonth }, (_, i) => {
+              const date = `${month}-${String(i + 1).padStart(2, '0')}`;
+              const entry = byDate.get(date);
+              const result = entry && results[date]?.id === entry.id ? results[date] : null;
+
+              if (!entry) {
+                return (
+                  <div
+                    key={date}
+                    className={`aspect-square rounded border border-gray-100 p-1 text-sm ${
+                      date > today ? 'text-gray-300' : 'text-gray-400'
+                    }`}
+                  >
+                    {i + 1}
+                  </div>
+                );
+              }
+
+              return (
+                <Link
+                  key={date}
+                  href={`/daily?date=${date}`}
+                  title={entry.title}
+                  className={`aspect-square rounded border p-1 text-sm flex flex-col justify-between transition-colors ${
+                    result
+                      ? 'bg-green-50 border-green-300 text-green-800 hover:bg-green-100'
+                      : 'bg-blue-50 border-blue-200 text-gray-800 hover:bg-blue-100'
+                  } ${date === today ? 'ring-2 ring-[#0077B5]' : ''}`}
+                >
+                  <span className="font-semibold">{i + 1}</span>
+                  <span className="text-xs truncate">
+                    {result ? `✓ ${formatTime(result.timeSeconds)}` : date === today ? 'Play' : 'Missed'}
+                  </span>
+                </Link>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
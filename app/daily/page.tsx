@@ -0,0 +1,123 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { GameInfo, PuzzleDifficulty } from '@/types/game';
+import GameBoard from '@/components/GameBoard';
+import { pickGameInfo } from '@/utils/puzzleValidation';
+import { localTimeZone } from '@/utils/dailyDates';
+import { saveDailyResult } from '@/utils/dailyProgress';
+
+interface DailyPuzzle {
+  date: string;
+  id: string;
+  revision: number;
+  gameInfo: GameInfo;
+  difficulty?: PuzzleDifficulty;
+}
+
+function DailyPuzzleView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const date = searchParams?.get('date');
+  const [daily, setDaily] = useState<DailyPuzzle | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadDaily = async () => {
+      setLoading(true);
+      try {
+        const query = new URLSearchParams({ tz: localTimeZone() });
+        if (date) query.set('date', date);
+        const response = await fetch(`/api/daily?${query}`);
+
+        if (response.status === 404) {
+          setError(date ? `No puzzle was scheduled for ${date}` : 'No puzzle is scheduled for today');
+          return;
+        }
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        const data = await response.json();
+        setDaily({
+          date: data.date,
+          id: data.id,
+          revision: data.puzzle.revision,
+          gameInfo: pickGameInfo(data.puzzle),
+          difficulty: data.puzzle.difficulty,
+        });
+      } catch (err) {
+        console.error('Error loading daily puzzle:', err);
+        setError('Failed to load the daily puzzle');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDaily();
+  }, [date]);
+
+  const handleSolved = useCallback(
+    (timeSeconds: number) => {
+      if (!daily) return;
+      saveDailyResult(daily.date, daily.id, timeSeconds);
+      fetch(`/api/puzzle/${daily.id}/solves`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revision: daily.revision, timeSeconds }),
+      }).catch((err) => console.error('Error recording solve:', err));
+    },
+    [daily]
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="text-gray-800">Loading puzzle...</div>
+      </div>
+    );
+  }
+
+  if (error || !daily) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="text-center space-y-4">
+          <div className="text-red-600">{error || 'Puzzle not found'}</div>
+          <div className="flex gap-3 justify-center">
+            <Link
+              href="/daily/archive"
+              className="px-4 py-2 bg-gray-200 text-gray-800 rounded hover:bg-gray-300"
+            >
+              Past puzzles
+            </Link>
+            <button
+              onClick={() => router.push('/')}
+              className="px-4 py-2 bg-[#0077B5] text-white rounded hover:bg-[#006399]"
+            >
+              Go Home
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <GameBoard
+      gameInfo={daily.gameInfo}
+      onBack={() => router.push('/daily/archive')}
+      onSolved={handleSolved}
+      difficulty={daily.difficulty}
+    />
+  );
+}
+
+export default function DailyPage() {
+  // useSearchParams needs a Suspense boundary on statically rendered pages
+  return (
+    <Suspense>
+      <DailyPuzzleView />
+    </Suspense>
+  );
+}
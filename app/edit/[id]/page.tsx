@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { GameInfo, PuzzleFieldError } from '@/types/game';
+import GameEditor from '@/components/GameEditor';
+import { pickGameInfo } from '@/utils/puzzleValidation';
+import { getEditToken, removeOwnedPuzzle, saveOwnedPuzzle } from '@/utils/ownedPuzzles';
+import { markPuzzleMigrated } from '@/utils/puzzleMigration';
+
+export default function EditPage() {
+  const params = useParams();
+  const router = useRouter();
+  const id = params?.id as string;
+  const [gameInfo, setGameInfo] = useState<GameInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPuzzle = async () => {
+      try {
+        if (!id) {
+          setError('Invalid puzzle ID');
+          return;
+        }
+
+        if (!getEditToken(id)) {
+          setError('This browser does not have permission to edit this puzzle');
+          return;
+        }
+
+        const response = await fetch(`/api/puzzle?id=${id}`);
+        if (!response.ok) {
+          setError('Puzzle not found');
+          return;
+        }
+
+        setGameInfo(pickGameInfo(await response.json()));
+      } catch (err) {
+        console.error('Error loading puzzle:', err);
+        setError('Failed to load puzzle');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPuzzle();
+  }, [id]);
+
+  const handleSave = async (info: GameInfo): Promise<PuzzleFieldError[]> => {
+    try {
+      const response = await fetch('/api/puzzle', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Edit-Token': getEditToken(id) || '',
+        },
+        body: JSON.stringify({ id, gameInfo: info }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        return data.errors || [{ field: '', message: data.error || 'Failed to save puzzle' }];
+      }
+
+      // Keep the local backup and the owned-puzzle title in sync
+      localStorage.setItem(`puzzle-${id}`, JSON.stringify(info));
+      saveOwnedPuzzle(id, info.title, getEditToken(id)!);
+      markPuzzleMigrated(id);
+      router.push(`/play/${id}`);
+      return [];
+    } catch (err) {
+      console.error('Error saving puzzle:', err);
+      return [{ field: '', message: 'Failed to save puzzle' }];
+    }
+  };
+
+  const handleDelete = async () => {
+    const response = await fetch(`/api/puzzle?id=${id}`, {
+      method: 'DELETE',
+      headers: { 'X-Edit-Token': getEditToken(id) || '' },
+    });
+
+    if (!response.ok && response.status !== 404) {
+      const data = await response.json().catch(() => ({}));
+      window.alert(data.error || 'Failed to delete puzzle');
+      return;
+    }
+
+    removeOwnedPuzzle(id);
+    localStorage.removeItem(`puzzle-${id}`);
+    router.push('/');
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="text-gray-800">Loading puzzle...</div>
+      </div>
+    );
+  }
+
+  if (error || !gameInfo) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="text-center space-y-4">
+          <div className="text-red-600">{error || 'Puzzle not found'}</div>
+          <button
+            onClick={() => router.push('/')}
+            className="px-4 py-2 bg-[#0077B5] text-white rounded hover:bg-[#006399]"
+          >
+            Go Home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <GameEditor
+      gameInfo={gameInfo}
+      onPublish={handleSave}
+      onBack={() => router.push(`/play/${id}`)}
+      publishLabel="Save Changes"
+      onDelete={handleDelete}
+    />
+  );
+}
@@ -1,58 +1,89 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { GameMode, GameInfo } from '@/types/game';
+import { GameMode, GameInfo, PuzzleFieldError } from '@/types/game';
 import ModeSelection from '@/components/ModeSelection';
 import AutoGenerateMode from '@/components/AutoGenerateMode';
 import ManualMode from '@/components/ManualMode';
 import GameBoard from '@/components/GameBoard';
+import ShareLinks from '@/components/ShareLinks';
 import { generatePuzzleId } from '@/utils/idGenerator';
+import { markPuzzleMigrated, migrateLocalPuzzles } from '@/utils/puzzleMigration';
+import { saveOwnedPuzzle } from '@/utils/ownedPuzzles';
 
 export default function Home() {
   const router = useRouter();
   const [mode, setMode] = useState<GameMode | null>(null);
   const [gameInfo, setGameInfo] = useState<GameInfo | null>(null);
+  const [published, setPublished] = useState<{ id: string; savedOnServer: boolean } | null>(null);
+
+  // Re-upload puzzles that only survived in this browser's localStorage
+  useEffect(() => {
+    migrateLocalPuzzles();
+  }, []);
 
   const handleModeSelect = (selectedMode: 'auto' | 'manual') => {
     setMode(selectedMode);
   };
 
-  const handleGameCreated = async (info: GameInfo) => {
+  const handleGameCreated = async (info: GameInfo): Promise<PuzzleFieldError[]> => {
     // Generate unique ID and save puzzle
     const puzzleId = generatePuzzleId();
     
     try {
       // Save to API
-      await fetch('/api/puzzle', {
+      const response = await fetch('/api/puzzle', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ id: puzzleId, gameInfo: info }),
       });
 
+      // Rejected by server-side validation: let the editor show what to fix
+      if (response.status === 400 || response.status === 413) {
+        const data = await response.json().catch(() => ({}));
+        return data.errors || [{ field: '', message: data.error || 'Invalid puzzle' }];
+      }
+
+      // Remember the edit token so this browser can manage the puzzle later
+      if (response.ok) {
+        const data = await response.json();
+        if (data.editToken) {
+          saveOwnedPuzzle(puzzleId, info.title, data.editToken);
+        }
+        // The server has it, so the local backup never needs uploading
+        markPuzzleMigrated(puzzleId);
+      }
+
       // Also save to localStorage as backup
       if (typeof window !== 'undefined') {
         localStorage.setItem(`puzzle-${puzzleId}`, JSON.stringify(info));
       }
 
-      // Navigate to play page with the puzzle ID
-      router.push(`/play/${puzzleId}`);
+      // Offer the short and portable links before playing
+      setGameInfo(info);
+      setPublished({ id: puzzleId, savedOnServer: response.ok });
+      setMode('published');
     } catch (error) {
       console.error('Error saving puzzle:', error);
-      // If API fails, just use localStorage
+      // If API fails, use localStorage; the portable link still works for everyone
       if (typeof window !== 'undefined') {
         localStorage.setItem(`puzzle-${puzzleId}`, JSON.stringify(info));
-        router.push(`/play/${puzzleId}`);
+        setGameInfo(info);
+        setPublished({ id: puzzleId, savedOnServer: false });
+        setMode('published');
       } else {
         // Fallback to direct play
         setGameInfo(info);
         setMode('playing');
       }
     }
+    return [];
   };
 
   const handleBackToMode = () => {
     setGameInfo(null);
+    setPublished(null);
     setMode(null);
   };
 
@@ -64,6 +95,18 @@ export default function Home() {
     return <GameBoard gameInfo={gameInfo} onBack={handleBackToMode} />;
   }
 
+  if (mode === 'published' && gameInfo && published) {
+    return (
+      <ShareLinks
+        puzzleId={published.id}
+        gameInfo={gameInfo}
+        savedOnServer={published.savedOnServer}
+        onPlay={() => router.push(`/play/${published.id}`)}
+        onBack={handleBackToMode}
+      />
+    );
+  }
+
   if (mode === 'auto') {
     return <AutoGenerateMode onGameCreated={handleGameCreated} onBack={handleBackToSelection} />;
   }
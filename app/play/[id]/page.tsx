@@ -1,16 +1,26 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { useParams, useRouter } from 'next/navigation';
-import { GameInfo } from '@/types/game';
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { GameInfo, PuzzleDifficulty } from '@/types/game';
 import GameBoard from '@/components/GameBoard';
+import { migrateLocalPuzzle } from '@/utils/puzzleMigration';
+import { getEditToken } from '@/utils/ownedPuzzles';
+import { pickGameInfo } from '@/utils/puzzleValidation';
+import { decodePortablePuzzle } from '@/utils/portableLink';
 
 export default function PlayPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const rev = searchParams?.get('rev');
   const [gameInfo, setGameInfo] = useState<GameInfo | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
+  // Revision served by the API; null when playing the localStorage backup
+  const [revision, setRevision] = useState<number | null>(null);
+  const [difficulty, setDifficulty] = useState<PuzzleDifficulty | undefined>(undefined);
 
   useEffect(() => {
     const loadPuzzle = async () => {
@@ -22,15 +32,40 @@ export default function PlayPage() {
           return;
         }
 
-        // Try to load from API
-        const response = await fetch(`/api/puzzle?id=${id}`);
+        // Portable links carry the whole puzzle in the URL fragment
+        const fragment = window.location.hash.slice(1);
+        if (fragment) {
+          const portableInfo = await decodePortablePuzzle(fragment);
+          if (portableInfo) {
+            setGameInfo(portableInfo);
+          } else {
+            setError('This puzzle link is damaged or incomplete');
+          }
+          setLoading(false);
+          return;
+        }
+
+        // Try to load from API (latest revision unless ?rev=N is given)
+        const query = rev ? `id=${id}&rev=${encodeURIComponent(rev)}` : `id=${id}`;
+        const response = await fetch(`/api/puzzle?${query}`);
         
+        if (!response.ok && rev) {
+          setError('Puzzle revision not found');
+          setLoading(false);
+          return;
+        }
+
         if (!response.ok) {
           // Try localStorage as fallback
           const localPuzzle = localStorage.getItem(`puzzle-${id}`);
           if (localPuzzle) {
-            setGameInfo(JSON.parse(localPuzzle));
+            const localInfo: GameInfo = JSON.parse(localPuzzle);
+            setGameInfo(localInfo);
             setLoading(false);
+            // The server lost this puzzle; restore it so the link works for others
+            if (response.status === 404) {
+              migrateLocalPuzzle(id, localInfo);
+            }
             return;
           }
           
@@ -40,7 +75,9 @@ export default function PlayPage() {
         }
 
         const data = await response.json();
-        setGameInfo(data);
+        setGameInfo(pickGameInfo(data));
+        setRevision(data.revision ?? null);
+        setDifficulty(data.difficulty);
         setLoading(false);
       } catch (err) {
         console.error('Error loading puzzle:', err);
@@ -50,7 +87,20 @@ export default function PlayPage() {
     };
 
     loadPuzzle();
-  }, [params]);
+    setCanEdit(!!getEditToken(params?.id as string));
+  }, [params, rev]);
+
+  const handleSolved = useCallback(
+    (timeSeconds: number) => {
+      if (revision === null) return;
+      fetch(`/api/puzzle/${params?.id}/solves`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revision, timeSeconds }),
+      }).catch((err) => console.error('Error recording solve:', err));
+    },
+    [params, revision]
+  );
 
   if (loading) {
     return (
@@ -80,6 +130,9 @@ export default function PlayPage() {
     <GameBoard
       gameInfo={gameInfo}
       onBack={() => router.push('/')}
+      onEdit={canEdit ? () => router.push(`/edit/${params?.id}`) : undefined}
+      onSolved={handleSolved}
+      difficulty={difficulty}
     />
   );
 }
@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { GameInfo } from '@/types/game';
+import PrintSheet from '@/components/PrintSheet';
+import { pickGameInfo } from '@/utils/puzzleValidation';
+
+// Keep a single print job to a sensible size
+const MAX_PUZZLES_PER_PRINT = 20;
+
+/**
+ * Print one or more puzzles: /print/<id> or /print/<id1>,<id2>,...
+ * Add ?answers=1 to include an answer key page after each puzzle.
+ */
+export default function PrintPage() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [puzzles, setPuzzles] = useState<Array<{ id: string; gameInfo: GameInfo }>>([]);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAnswers, setShowAnswers] = useState(searchParams?.get('answers') === '1');
+
+  useEffect(() => {
+    const loadPuzzles = async () => {
+      const ids = decodeURIComponent((params?.id as string) || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+        .slice(0, MAX_PUZZLES_PER_PRINT);
+
+      const results = await Promise.all(
+        ids.map(async (id) => {
+          try {
+            const response = await fetch(`/api/puzzle?id=${encodeURIComponent(id)}`);
+            if (response.ok) {
+              return { id, gameInfo: pickGameInfo(await response.json()) };
+            }
+            // Fall back to this browser's backup copy
+            const localPuzzle = localStorage.getItem(`puzzle-${id}`);
+            return localPuzzle ? { id, gameInfo: JSON.parse(localPuzzle) as GameInfo } : { id, gameInfo: null };
+          } catch (err) {
+            console.error(`Error loading puzzle ${id}:`, err);
+            return { id, gameInfo: null };
+          }
+        })
+      );
+
+      setPuzzles(results.filter((r): r is { id: string; gameInfo: GameInfo } => r.gameInfo !== null));
+      setMissing(results.filter((r) => r.gameInfo === null).map((r) => r.id));
+      setLoading(false);
+    };
+
+    loadPuzzles();
+  }, [params]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="text-gray-800">Loading puzzles...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 print:bg-white">
+      <div className="max-w-3xl mx-auto p-4 space-y-4 print:hidden">
+        <div className="flex items-center justify-between gap-4">
+          <button
+            onClick={() => router.push('/')}
+            className="text-[#0077B5] hover:text-[#006399] font-medium"
+          >
+            ← Back
+          </button>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-gray-700 text-sm">
+              <input
+                type="checkbox"
+                checked={showAnswers}
+                onChange={(e) => setShowAnswers(e.target.checked)}
+              />
+              Include answer key
+            </label>
+            <button
+              onClick={() => window.print()}
+              disabled={puzzles.length === 0}
+              className="px-4 py-2 bg-[#0077B5] hover:bg-[#006399] disabled:bg-gray-400 text-white rounded font-medium shadow-sm"
+            >
+              Print
+            </button>
+          </div>
+        </div>
+        {missing.length > 0 && (
+          <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded text-sm">
+            Could not load: {missing.join(', ')}
+          </div>
+        )}
+      </div>
+
+      <div className="max-w-3xl mx-auto space-y-4 print:space-y-0 print:max-w-none">
+        {puzzles.map(({ id, gameInfo }) => (
+          <div key={id} className="shadow-lg print:shadow-none">
+            <PrintSheet gameInfo={gameInfo} seed={id} showAnswers={showAnswers} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { PuzzleAnalysis } from '@/types/game';
+
+interface AmbiguityWarningsProps {
+  /** Latest successful report, kept while a newer check is loading or has failed */
+  analysis: PuzzleAnalysis | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Summary of the puzzle analyzer's findings, shown above the publish button
+ */
+export default function AmbiguityWarnings({ analysis, loading, error }: AmbiguityWarningsProps) {
+  if (!analysis) {
+    if (loading) {
+      return <p className="text-sm text-gray-500">Checking for other words that fit the ladder...</p>;
+    }
+    return error ? <p className="text-sm text-gray-500">Ambiguity check unavailable: {error}</p> : null;
+  }
+
+  const { rungs, orderings, orderingsCapped } = analysis;
+  if (rungs.length === 0 && orderings.length === 0) {
+    return (
+      <div className="p-3 bg-green-50 border border-green-200 text-green-800 rounded text-sm">
+        No other dictionary word fits any rung, and the rows only sort one way.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-amber-50 border border-amber-200 text-amber-900 rounded text-sm space-y-2">
+      <p className="font-semibold">Players may find other answers</p>
+      {rungs.length > 0 && (
+        <p>
+          {rungs.length === 1 ? '1 rung has' : `${rungs.length} rungs have`} other valid words (listed under
+          each word). Make sure those clues only fit your answer; a different word is marked wrong.
+        </p>
+      )}
+      {orderings.length > 0 && (
+        <div className="space-y-1">
+          <p>The rows also sort into {orderingsCapped ? 'at least ' : ''}{orderings.length} other order{orderings.length === 1 ? '' : 's'}:</p>
+          <ul className="space-y-0.5">
+            {orderings.map((ordering) => (
+              <li key={ordering.words.join(' ')} className="font-mono text-xs">
+                {ordering.words.join(' → ')}
+                <span className="font-sans">
+                  {ordering.fitsEdges ? ' (also solvable)' : " (edge words don't fit: players get stuck)"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,40 @@
 'use client';
 
 import { useState } from 'react';
-import { GameInfo } from '@/types/game';
-import { generateWordLadderGame } from '@/utils/gameGenerator';
+import { GameInfo, LadderCandidate, LadderDifficulty, LadderRules, LanguageId, PuzzleFieldError } from '@/types/game';
+import {
+  fetchLadderCandidates,
+  fetchRandomLadder,
+  fetchThemedLadder,
+  generateWordLadderGame,
+  LadderSearchOptions,
+} from '@/utils/gameGenerator';
+import { PUZZLE_LIMITS } from '@/utils/puzzleValidation';
+import { DEFAULT_DICTIONARY, defaultDictionary, dictionaryLanguage, hasCompoundIndex } from '@/utils/dictionaries';
+import { DEFAULT_LANGUAGE, normalizeWord } from '@/utils/languages';
 import GameEditor from './GameEditor';
+import LadderPicker from './LadderPicker';
+import CompoundPairPicker from './CompoundPairPicker';
+import LadderRulesSelect from './LadderRulesSelect';
+import DictionarySelect from './DictionarySelect';
+import { useDictionaries } from '@/hooks/useDictionaries';
+
+type RungMode = 'shortest' | 'exact' | 'range';
+
+const RUNG_CHOICES = Array.from({ length: PUZZLE_LIMITS.maxMiddleWords }, (_, i) => i + 1);
+
+/**
+ * Split a comma- or space-separated list of words
+ */
+function parseWordList(text: string, language: LanguageId): string[] {
+  return text
+    .split(/[\s,]+/)
+    .map((word) => normalizeWord(word.trim(), language))
+    .filter(Boolean);
+}
 
 interface AutoGenerateModeProps {
-  onGameCreated: (gameInfo: GameInfo) => void;
+  onGameCreated: (gameInfo: GameInfo) => Promise<PuzzleFieldError[]>;
   onBack: () => void;
 }
 
@@ -21,45 +49,132 @@ export default function AutoGenerateMode({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [generatedGame, setGeneratedGame] = useState<GameInfo | null>(null);
+  const [rungMode, setRungMode] = useState<RungMode>('shortest');
+  const [minRungs, setMinRungs] = useState(3);
+  const [maxRungs, setMaxRungs] = useState(5);
+  const [viaWords, setViaWords] = useState('');
+  const [avoidWords, setAvoidWords] = useState('');
+  const [allowObscure, setAllowObscure] = useState(false);
+  const [rules, setRules] = useState<LadderRules>('classic');
+  const [dictionary, setDictionary] = useState(DEFAULT_DICTIONARY);
+  const language = dictionaryLanguage(dictionary);
+  // "Everyday words" needs commonness scores, which only some dictionaries are built with
+  const installed = useDictionaries();
+  const scored = !!installed?.find((d) => d.id === dictionary)?.commonness;
+  const vocabulary: LadderDifficulty = scored && !allowObscure ? 'everyday' : 'obscure';
+  const [surpriseLength, setSurpriseLength] = useState(4);
+  const [surpriseRungs, setSurpriseRungs] = useState(5);
+  const [preferCompound, setPreferCompound] = useState(true);
+  const [candidates, setCandidates] = useState<LadderCandidate[] | null>(null);
+  const [themeText, setThemeText] = useState('');
+  const [allowConnectors, setAllowConnectors] = useState(false);
+  const [offTheme, setOffTheme] = useState<string[]>([]);
+
+  // A themed list replaces the rung and waypoint options, and only works with classic steps
+  const themeWords = parseWordList(themeText, language);
+  const themed = rules === 'classic' && themeWords.length > 0;
 
-  const handleGenerate = async () => {
+  // Changing the search invalidates any ladders already offered
+  const resetCandidates = () => setCandidates(null);
+
+  // Words can be passed in when they were just picked and state hasn't updated yet
+  const handleGenerate = async (top = startWord, bottom = endWord) => {
     if (!title.trim()) {
       setError('Please enter a title for your puzzle');
       return;
     }
 
-    if (!startWord || !endWord) {
+    if (!top || !bottom) {
       setError('Please enter both starting and ending words');
       return;
     }
 
-    if (startWord.length !== endWord.length) {
+    if (top.length !== bottom.length && rules !== 'add-drop') {
       setError('Start and end words must have the same length');
       return;
     }
 
     setLoading(true);
     setError(null);
+    setCandidates(null);
+
+    if (themed) {
+      const result = await fetchThemedLadder(top, bottom, themeWords, {
+        allowConnectors,
+        difficulty: vocabulary,
+        dictionary,
+      });
+      if ('error' in result) {
+        setError(result.error);
+        setLoading(false);
+        return;
+      }
+      await buildGame(result.path, 'classic', result.offTheme);
+      return;
+    }
+
+    const via = parseWordList(viaWords, language);
+    const avoid = parseWordList(avoidWords, language);
+    const difficulty = vocabulary;
+    const options: LadderSearchOptions =
+      rules !== 'classic'
+        ? { alternatives: 'all-shortest', difficulty, rules }
+        : rungMode === 'shortest' && via.length === 0 && avoid.length === 0
+        ? { alternatives: 'all-shortest', difficulty }
+        : {
+            alternatives: 'top-k',
+            difficulty,
+            constraints: {
+              ...(rungMode === 'exact' && { minRungs: maxRungs, maxRungs }),
+              ...(rungMode === 'range' && { minRungs, maxRungs }),
+              via,
+              avoid,
+            },
+          };
+    const result = await fetchLadderCandidates(top, bottom, { ...options, dictionary });
+
+    if ('error' in result) {
+      setError(result.error);
+      setLoading(false);
+      return;
+    }
+
+    // Nothing to choose between, so go straight to the editor
+    if (result.candidates.length === 1) {
+      await buildGame(result.candidates[0].path, rules);
+      return;
+    }
+
+    setCandidates(result.candidates);
+    setLoading(false);
+  };
+
+  const buildGame = async (path: string[], ladderRules: LadderRules = 'classic', offThemeWords: string[] = []) => {
+    setLoading(true);
+    setError(null);
+    setOffTheme(offThemeWords);
+
+    const [first, last] = [path[0], path[path.length - 1]];
 
     try {
-      const gameInfo = await generateWordLadderGame(
-        startWord.toUpperCase(),
-        endWord.toUpperCase()
-      );
+      const gameInfo = await generateWordLadderGame(first, last, path, language);
 
       if (!gameInfo) {
         setError(
-          `Could not find a valid word ladder between "${startWord}" and "${endWord}". The words may not be connected, or one or both words may not be in the dictionary. Try different words!`
+          `Could not find a valid word ladder between "${first}" and "${last}". The words may not be connected, or one or both words may not be in the dictionary. Try different words!`
         );
         setLoading(false);
         return;
       }
 
-      // Add title and author to game info
+      // Add title, author, any variant rules and a non-default dictionary and language to game info
       const gameInfoWithMetadata = {
         ...gameInfo,
         title: title.trim(),
         author: author.trim() || undefined,
+        ...(ladderRules !== 'classic' && { rules: ladderRules }),
+        ...(dictionary !== defaultDictionary(language) && { dictionary }),
+        ...(language !== DEFAULT_LANGUAGE && { language }),
       };
 
       setLoading(false);
@@ -70,16 +185,49 @@ export default function AutoGenerateMode({
     }
   };
 
-  const handlePublish = (gameInfo: GameInfo) => {
-    onGameCreated(gameInfo);
+  const handleSurprise = async () => {
+    if (!title.trim()) {
+      setError('Please enter a title for your puzzle');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setCandidates(null);
+
+    const result = await fetchRandomLadder(surpriseLength, surpriseRungs, {
+      difficulty: vocabulary,
+      preferCompound: preferCompound && hasCompoundIndex(dictionary),
+      dictionary,
+    });
+
+    if ('error' in result) {
+      setError(result.error);
+      setLoading(false);
+      return;
+    }
+
+    // Show the picked edge words in the form so "Back" returns to them
+    setStartWord(result.path[0]);
+    setEndWord(result.path[result.path.length - 1]);
+    await buildGame(result.path);
+  };
+
+  const handleCompoundPicked = (first: string, second: string) => {
+    setStartWord(first);
+    setEndWord(second);
+    handleGenerate(first, second);
   };
 
+  const handlePublish = (gameInfo: GameInfo) => onGameCreated(gameInfo);
+
   if (generatedGame) {
     return (
       <GameEditor
         gameInfo={generatedGame}
         onPublish={handlePublish}
         onBack={() => setGeneratedGame(null)}
+        offThemeWords={offTheme}
       />
     );
   }
@@ -129,7 +277,10 @@ export default function AutoGenerateMode({
               <input
                 type="text"
                 value={startWord}
-                onChange={(e) => setStartWord(e.target.value.toUpperCase())}
+                onChange={(e) => {
+                  setStartWord(normalizeWord(e.target.value, language));
+                  resetCandidates();
+                }}
                 className="w-full p-3 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20 font-mono"
                 placeholder="e.g., BARE"
                 maxLength={10}
@@ -141,13 +292,200 @@ export default function AutoGenerateMode({
               <input
                 type="text"
                 value={endWord}
-                onChange={(e) => setEndWord(e.target.value.toUpperCase())}
+                onChange={(e) => {
+                  setEndWord(normalizeWord(e.target.value, language));
+                  resetCandidates();
+                }}
                 className="w-full p-3 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20 font-mono"
                 placeholder="e.g., FOOT"
                 maxLength={10}
               />
             </div>
 
+            <DictionarySelect
+              value={dictionary}
+              onChange={(value) => {
+                setDictionary(value);
+                resetCandidates();
+              }}
+            />
+
+            <LadderRulesSelect
+              value={rules}
+              onChange={(value) => {
+                setRules(value);
+                resetCandidates();
+              }}
+            />
+
+            {rules === 'classic' && (
+              <div>
+                <label className="block text-gray-700 mb-2 font-medium">Themed word list (optional)</label>
+                <textarea
+                  value={themeText}
+                  onChange={(e) => {
+                    setThemeText(e.target.value);
+                    resetCandidates();
+                  }}
+                  rows={4}
+                  className="w-full p-3 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20 font-mono text-sm"
+                  placeholder="Paste the words your ladder may use, separated by spaces, commas or new lines"
+                />
+                <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-sm">
+                  <input
+                    type="file"
+                    accept=".txt,.csv,text/plain"
+                    onChange={async (e) => {
+                      const file = e.target.files?.[0];
+                      if (!file) return;
+                      setThemeText(await file.text());
+                      resetCandidates();
+                    }}
+                    className="text-gray-700"
+                  />
+                  {themed && <span className="text-gray-500">{themeWords.length} words</span>}
+                </div>
+                {themed && (
+                  <label className="flex items-center gap-2 text-gray-700 cursor-pointer mt-2">
+                    <input
+                      type="checkbox"
+                      checked={allowConnectors}
+                      onChange={(e) => {
+                        setAllowConnectors(e.target.checked);
+                        resetCandidates();
+                      }}
+                      className="accent-[#0077B5]"
+                    />
+                    Fill gaps with dictionary words (marked off-theme in the editor)
+                  </label>
+                )}
+              </div>
+            )}
+
+            {rules === 'classic' && !themed && (
+              <div>
+                <label className="block text-gray-700 mb-2 font-medium">Number of rungs</label>
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={rungMode}
+                    onChange={(e) => {
+                      setRungMode(e.target.value as RungMode);
+                      resetCandidates();
+                    }}
+                    className="p-3 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20"
+                  >
+                    <option value="shortest">As few as possible</option>
+                    <option value="exact">Exactly</option>
+                    <option value="range">Between</option>
+                  </select>
+                  {rungMode === 'range' && (
+                    <>
+                      <select
+                        value={minRungs}
+                        onChange={(e) => {
+                          setMinRungs(Number(e.target.value));
+                          resetCandidates();
+                        }}
+                        className="p-3 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20"
+                      >
+                        {RUNG_CHOICES.map((n) => (
+                          <option key={n} value={n}>{n}</option>
+                        ))}
+                      </select>
+                      <span className="text-gray-600">and</span>
+                    </>
+                  )}
+                  {rungMode !== 'shortest' && (
+                    <select
+                      value={maxRungs}
+                      onChange={(e) => {
+                        setMaxRungs(Number(e.target.value));
+                        resetCandidates();
+                      }}
+                      className="p-3 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20"
+                    >
+                      {RUNG_CHOICES.map((n) => (
+                        <option key={n} value={n}>{n}</option>
+                      ))}
+                    </select>
+                  )}
+                  {rungMode !== 'shortest' && <span className="text-gray-600">rungs</span>}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-gray-700 mb-2 font-medium">Vocabulary</label>
+              <div className={`flex gap-4 ${scored ? 'text-gray-700' : 'text-gray-400'}`}>
+                <label className={`flex items-center gap-2 ${scored ? 'cursor-pointer' : ''}`}>
+                  <input
+                    type="radio"
+                    name="vocabulary"
+                    checked={vocabulary === 'everyday'}
+                    disabled={!scored}
+                    onChange={() => {
+                      setAllowObscure(false);
+                      resetCandidates();
+                    }}
+                    className="accent-[#0077B5]"
+                  />
+                  Everyday words
+                </label>
+                <label className={`flex items-center gap-2 ${scored ? 'cursor-pointer' : ''}`}>
+                  <input
+                    type="radio"
+                    name="vocabulary"
+                    checked={vocabulary === 'obscure'}
+                    disabled={!scored}
+                    onChange={() => {
+                      setAllowObscure(true);
+                      resetCandidates();
+                    }}
+                    className="accent-[#0077B5]"
+                  />
+                  Allow obscure words
+                </label>
+              </div>
+              {installed && !scored && (
+                <p className="mt-1 text-sm text-gray-500">
+                  This dictionary was built without a word-frequency list, so it can&apos;t tell everyday words
+                  from obscure ones and any word may appear. Rebuild it with a frequency list to use this setting.
+                </p>
+              )}
+            </div>
+
+            {rules === 'classic' && !themed && (
+              <>
+                <div>
+                  <label className="block text-gray-700 mb-2 font-medium">Must pass through (optional)</label>
+                  <input
+                    type="text"
+                    value={viaWords}
+                    onChange={(e) => {
+                      setViaWords(normalizeWord(e.target.value, language));
+                      resetCandidates();
+                    }}
+                    className="w-full p-3 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20 font-mono"
+                    placeholder="e.g., COLT, BOLT (in order from top to bottom)"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-gray-700 mb-2 font-medium">Words to avoid (optional)</label>
+                  <input
+                    type="text"
+                    value={avoidWords}
+                    onChange={(e) => {
+                      setAvoidWords(normalizeWord(e.target.value, language));
+                      resetCandidates();
+                    }}
+                    className="w-full p-3 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20 font-mono"
+                    placeholder="e.g., FART"
+                  />
+                </div>
+              </>
+            )}
+
             {error && (
               <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded">
                 {error}
@@ -155,12 +493,68 @@ export default function AutoGenerateMode({
             )}
 
             <button
-              onClick={handleGenerate}
+              onClick={() => handleGenerate()}
               disabled={loading || !startWord || !endWord}
               className="w-full p-3 bg-[#0077B5] hover:bg-[#006399] disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-bold rounded transition-colors shadow-md hover:shadow-lg"
             >
-              {loading ? 'Generating...' : 'Generate Puzzle'}
+              {loading ? 'Generating...' : candidates ? 'Search Again' : 'Generate Puzzle'}
             </button>
+
+            {candidates && (
+              <LadderPicker
+                candidates={candidates}
+                onChoose={(path) => buildGame(path, rules)}
+                disabled={loading}
+              />
+            )}
+
+            {/* The compound index is built from the default dictionary only */}
+            {hasCompoundIndex(dictionary) && (
+              <CompoundPairPicker onPick={handleCompoundPicked} disabled={loading} />
+            )}
+
+            <div className="pt-4 border-t border-gray-200 space-y-3">
+              <h3 className="text-lg font-semibold text-gray-800">No words in mind?</h3>
+              <div className="flex flex-wrap items-center gap-2 text-gray-700">
+                <select
+                  value={surpriseLength}
+                  onChange={(e) => setSurpriseLength(Number(e.target.value))}
+                  className="p-2 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20"
+                >
+                  {[3, 4, 5, 6, 7, 8].map((n) => (
+                    <option key={n} value={n}>{n}-letter words</option>
+                  ))}
+                </select>
+                <span>with</span>
+                <select
+                  value={surpriseRungs}
+                  onChange={(e) => setSurpriseRungs(Number(e.target.value))}
+                  className="p-2 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20"
+                >
+                  {RUNG_CHOICES.slice(0, 10).map((n) => (
+                    <option key={n} value={n}>{n} {n === 1 ? 'rung' : 'rungs'}</option>
+                  ))}
+                </select>
+              </div>
+              {hasCompoundIndex(dictionary) && (
+                <label className="flex items-center gap-2 text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={preferCompound}
+                    onChange={(e) => setPreferCompound(e.target.checked)}
+                    className="accent-[#0077B5]"
+                  />
+                  Prefer top and bottom words that form a compound word
+                </label>
+              )}
+              <button
+                onClick={handleSurprise}
+                disabled={loading}
+                className="w-full p-3 bg-white hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed text-[#0077B5] font-bold rounded border-2 border-[#0077B5] transition-colors"
+              >
+                {loading ? 'Generating...' : 'Surprise Me'}
+              </button>
+            </div>
           </div>
         </div>
       </div>
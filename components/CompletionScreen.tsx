@@ -1,16 +1,20 @@
 'use client';
 
 import { useState } from 'react';
-import { Game } from '@/types/game';
+import { Game, GameInfo } from '@/types/game';
+import ExportButtons from './ExportButtons';
 
 interface CompletionScreenProps {
   game: Game;
+  /** Original puzzle, used for exporting in ladder order */
+  gameInfo?: GameInfo;
   time: number;
   onBack: () => void;
 }
 
 export default function CompletionScreen({
   game,
+  gameInfo,
   time,
   onBack,
 }: CompletionScreenProps) {
@@ -149,6 +153,15 @@ export default function CompletionScreen({
           </button>
         </div>
 
+        {gameInfo && (
+          <div className="flex justify-center">
+            <ExportButtons
+              gameInfo={gameInfo}
+              buttonClassName="px-3 py-1 bg-white/10 hover:bg-white/20 text-white rounded text-sm font-medium"
+            />
+          </div>
+        )}
+
         {/* Back Button */}
         <div className="text-center">
           <button
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import { CompoundPair } from '@/types/game';
+
+interface CompoundPairPickerProps {
+  /** Called with the top and bottom words of the chosen pair */
+  onPick: (first: string, second: string) => void;
+  disabled?: boolean;
+}
+
+const PAGE_SIZE = 30;
+
+/**
+ * Search the compound-word index for edge pairs, so an author can start
+ * from the top + bottom phrase and let the ladder fill in between
+ */
+export default function CompoundPairPicker({ onPick, disabled }: CompoundPairPickerProps) {
+  const [wordLength, setWordLength] = useState(4);
+  const [contains, setContains] = useState('');
+  const [pairs, setPairs] = useState<CompoundPair[] | null>(null);
+  const [total, setTotal] = useState(0);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = async (offset = 0) => {
+    setSearching(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({
+        wordLength: String(wordLength),
+        minRungs: '2',
+        offset: String(offset),
+        limit: String(PAGE_SIZE),
+      });
+      if (contains.trim()) query.set('contains', contains.trim());
+
+      const response = await fetch(`/api/compounds?${query}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+
+      setPairs(offset === 0 ? data.pairs : [...(pairs || []), ...data.pairs]);
+      setTotal(data.total);
+    } catch (err) {
+      console.error('Error searching compound pairs:', err);
+      setError('Could not search compound words');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const inputClass =
+    'p-2 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20';
+
+  return (
+    <div className="pt-4 border-t border-gray-200 space-y-3">
+      <h3 className="text-lg font-semibold text-gray-800">Start from a compound word</h3>
+      <p className="text-sm text-gray-600">
+        The top and bottom rows of a Crossclimb join into one phrase. Find a pair, and we&apos;ll build the ladder between its halves.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={wordLength}
+          onChange={(e) => setWordLength(Number(e.target.value))}
+          className={inputClass}
+        >
+          {[3, 4, 5, 6, 7].map((n) => (
+            <option key={n} value={n}>{n}-letter halves</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={contains}
+          onChange={(e) => setContains(e.target.value.toUpperCase())}
+          onKeyDown={(e) => e.key === 'Enter' && search()}
+          className={`${inputClass} flex-1 min-w-[8rem] font-mono`}
+          placeholder="Containing, e.g. FOOT"
+          maxLength={wordLength}
+        />
+        <button
+          onClick={() => search()}
+          disabled={searching || disabled}
+          className="px-4 py-2 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-800 rounded font-medium"
+        >
+          {searching ? 'Searching...' : 'Find Pairs'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded">{error}</div>
+      )}
+
+      {pairs && pairs.length === 0 && (
+        <p className="text-sm text-gray-600">No compound pairs found. Try another word or length.</p>
+      )}
+
+      {pairs && pairs.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2 max-h-60 overflow-y-auto">
+            {pairs.map((pair) => (
+              <button
+                key={`${pair.first}-${pair.second}`}
+                onClick={() => onPick(pair.first, pair.second)}
+                disabled={disabled}
+                className="px-3 py-1 rounded border border-gray-300 hover:border-[#0077B5] hover:bg-blue-50 disabled:opacity-50 text-sm text-gray-800"
+                title={`${pair.rungs} rungs in the shortest ladder`}
+              >
+                <span className="font-mono font-semibold">{pair.first}</span>
+                {pair.kind === 'phrase' ? ' ' : ' + '}
+                <span className="font-mono font-semibold">{pair.second}</span>
+                <span className="text-gray-500"> · {pair.rungs}</span>
+              </button>
+            ))}
+          </div>
+          {pairs.length < total && (
+            <button
+              onClick={() => search(pairs.length)}
+              disabled={searching}
+              className="text-sm text-[#0077B5] hover:text-[#006399] font-medium"
+            >
+              Show more ({total - pairs.length} left)
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { DICTIONARIES } from '@/utils/dictionaries';
+import { LANGUAGES } from '@/utils/languages';
+import { useDictionaries } from '@/hooks/useDictionaries';
+
+interface DictionarySelectProps {
+  value: string;
+  onChange: (dictionary: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Word list picker, grouped by language; the chosen list also sets the puzzle's language.
+ * Only dictionaries the server has data for are offered, plus the current choice.
+ */
+export default function DictionarySelect({ value, onChange, disabled = false }: DictionarySelectProps) {
+  const installed = useDictionaries();
+  const isInstalled = (id: string) => !!installed?.some((dictionary) => dictionary.id === id);
+  const offered = DICTIONARIES.filter((dictionary) => dictionary.id === value || isInstalled(dictionary.id));
+
+  return (
+    <div>
+      <label className="block text-gray-700 mb-2 font-medium">Language and dictionary</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="w-full p-3 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20"
+      >
+        {LANGUAGES.map((language) => {
+          const inLanguage = offered.filter((dictionary) => dictionary.language === language.id);
+          if (inLanguage.length === 0) return null;
+          return (
+            <optgroup key={language.id} label={language.name}>
+              {inLanguage.map((dictionary) => {
+                const missing = installed && !isInstalled(dictionary.id) ? ', not installed on this server' : '';
+                return (
+                  <option key={dictionary.id} value={dictionary.id}>
+                    {`${dictionary.name} (${dictionary.description}${missing})`}
+                  </option>
+                );
+              })}
+            </optgroup>
+          );
+        })}
+      </select>
+    </div>
+  );
+}
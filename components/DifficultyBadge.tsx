@@ -0,0 +1,30 @@
+'use client';
+
+import { DifficultyLevel } from '@/types/game';
+
+const LEVEL_STYLES: Record<DifficultyLevel, string> = {
+  easy: 'bg-green-100 text-green-800',
+  medium: 'bg-amber-100 text-amber-800',
+  hard: 'bg-red-100 text-red-800',
+};
+
+export const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+interface DifficultyBadgeProps {
+  level: DifficultyLevel;
+  /** 0-100 rating, shown next to the label when given */
+  score?: number;
+}
+
+export default function DifficultyBadge({ level, score }: DifficultyBadgeProps) {
+  return (
+    <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold ${LEVEL_STYLES[level]}`}>
+      {DIFFICULTY_LABELS[level]}
+      {score !== undefined && ` · ${score}/100`}
+    </span>
+  );
+}
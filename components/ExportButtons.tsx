@@ -0,0 +1,47 @@
+'use client';
+
+import { GameInfo } from '@/types/game';
+import { exportPuzzle, PuzzleFileFormat } from '@/utils/puzzleFormats';
+
+interface ExportButtonsProps {
+  gameInfo: GameInfo;
+  /** Tailwind classes for each button, so the buttons fit light and dark screens */
+  buttonClassName?: string;
+}
+
+const EXPORT_FORMATS: Array<{ format: PuzzleFileFormat; label: string; extension: string; mimeType: string }> = [
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'text', label: 'Text', extension: 'txt', mimeType: 'text/plain' },
+  { format: 'ipuz', label: 'ipuz', extension: 'ipuz', mimeType: 'application/json' },
+];
+
+function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ExportButtons({
+  gameInfo,
+  buttonClassName = 'px-3 py-1 bg-gray-200 hover:bg-gray-300 text-gray-800 rounded text-sm font-medium',
+}: ExportButtonsProps) {
+  const baseName = (gameInfo.title || 'crossclimb').replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase();
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      {EXPORT_FORMATS.map(({ format, label, extension, mimeType }) => (
+        <button
+          key={format}
+          onClick={() => downloadFile(`${baseName || 'crossclimb'}.${extension}`, exportPuzzle(gameInfo, format), mimeType)}
+          className={buttonClassName}
+        >
+          Export {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import { PuzzleFieldError } from '@/types/game';
+import { fieldErrors } from '@/utils/puzzleValidation';
+
+interface FieldErrorsProps {
+  errors: PuzzleFieldError[];
+  /** Show errors for this field path only; omit to show every error not listed in `exclude` */
+  field?: string;
+  exclude?: string[];
+}
+
+export default function FieldErrors({ errors, field, exclude = [] }: FieldErrorsProps) {
+  const messages =
+    field !== undefined
+      ? fieldErrors(errors, field)
+      : errors.filter((e) => !exclude.includes(e.field)).map((e) => e.message);
+
+  if (messages.length === 0) return null;
+
+  if (field !== undefined) {
+    return (
+      <div className="mt-1 space-y-0.5">
+        {messages.map((message, i) => (
+          <p key={i} className="text-xs text-red-600">{message}</p>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded space-y-1">
+      {messages.map((message, i) => (
+        <p key={i}>{message}</p>
+      ))}
+    </div>
+  );
+}
@@ -4,14 +4,21 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { useGame } from '@/hooks/useGame';
 import SortableWordList, { SortableWordListRef } from './SortableWordList';
 import CompletionScreen from './CompletionScreen';
-import { GameInfo } from '@/types/game';
+import { GameInfo, PuzzleDifficulty } from '@/types/game';
+import DifficultyBadge from './DifficultyBadge';
 
 interface GameBoardProps {
   gameInfo: GameInfo;
   onBack: () => void;
+  /** Shown as an "Edit this puzzle" button for the puzzle's owner */
+  onEdit?: () => void;
+  /** Called once with the solve time in seconds when the puzzle is completed */
+  onSolved?: (timeSeconds: number) => void;
+  /** Rating of a published puzzle, shown under the timer */
+  difficulty?: PuzzleDifficulty;
 }
 
-export default function GameBoard({ gameInfo, onBack }: GameBoardProps) {
+export default function GameBoard({ gameInfo, onBack, onEdit, onSolved, difficulty }: GameBoardProps) {
   const {
     game,
     focusedIndex,
@@ -81,6 +88,15 @@ export default function GameBoard({ gameInfo, onBack }: GameBoardProps) {
     }
   }, [revealCooldown]);
 
+  // Report the solve once per game
+  const hasReportedSolve = useRef(false);
+  useEffect(() => {
+    if (gameStatus === 'solved' && !hasReportedSolve.current) {
+      hasReportedSolve.current = true;
+      onSolved?.(getElapsedTime());
+    }
+  }, [gameStatus, onSolved, getElapsedTime]);
+
   // Auto-focus top edge case when transitioning from unsorted to sorted
   useEffect(() => {
     if (game && prevGameStatus.current === 'unsorted' && gameStatus === 'sorted') {
@@ -259,6 +275,7 @@ export default function GameBoard({ gameInfo, onBack }: GameBoardProps) {
     return (
       <CompletionScreen
         game={game}
+        gameInfo={gameInfo}
         time={getElapsedTime()}
         onBack={onBack}
       />
@@ -283,11 +300,25 @@ export default function GameBoard({ gameInfo, onBack }: GameBoardProps) {
         ?
       </button>
 
+      {onEdit && (
+        <button
+          onClick={onEdit}
+          className="fixed top-4 left-4 px-4 h-10 flex items-center justify-center rounded-full bg-white/10 hover:bg-white/20 text-white text-sm font-medium transition-colors z-50"
+        >
+          Edit this puzzle
+        </button>
+      )}
+
       {/* Timer */}
       <div className="text-center mb-4">
         <div className="text-white text-2xl font-mono font-bold">
           {formatTime(elapsedTime)}
         </div>
+        {difficulty && (
+          <div className="mt-1">
+            <DifficultyBadge level={difficulty.level} />
+          </div>
+        )}
       </div>
 
       <div className="max-w-xl mx-auto space-y-4">
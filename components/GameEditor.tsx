@@ -1,22 +1,76 @@
 'use client';
 
-import { useState } from 'react';
-import { GameInfo } from '@/types/game';
+import { useEffect, useState } from 'react';
+import { GameInfo, PuzzleAnalysis, PuzzleDifficulty, PuzzleFieldError } from '@/types/game';
+import { validateGameInfo } from '@/utils/puzzleValidation';
+import FieldErrors from './FieldErrors';
+import ExportButtons from './ExportButtons';
+import AmbiguityWarnings from './AmbiguityWarnings';
+import DifficultyBadge from './DifficultyBadge';
+import { detectPuzzleFormat, importPuzzle } from '@/utils/puzzleFormats';
 import { getWordDefinitionsList, getWordDefinition, generateHintFromDefinition } from '@/utils/dictionaryApi';
+import { fetchPuzzleAnalysis } from '@/utils/gameGenerator';
 
 interface GameEditorProps {
   gameInfo: GameInfo;
-  onPublish: (gameInfo: GameInfo) => void;
+  onPublish: (gameInfo: GameInfo) => Promise<PuzzleFieldError[]>;
   onBack: () => void;
+  /** Label for the publish button, e.g. "Save Changes" when editing */
+  publishLabel?: string;
+  /** Shown as a "Delete puzzle" button when editing a published puzzle */
+  onDelete?: () => Promise<void>;
+  /** Dictionary words a themed ladder used as connectors, flagged so the author can replace them */
+  offThemeWords?: string[];
 }
 
-export default function GameEditor({ gameInfo, onPublish, onBack }: GameEditorProps) {
+export default function GameEditor({
+  gameInfo,
+  onPublish,
+  onBack,
+  publishLabel = 'Publish Puzzle',
+  onDelete,
+  offThemeWords = [],
+}: GameEditorProps) {
   const [editedGame, setEditedGame] = useState<GameInfo>(gameInfo);
   const [loadingWord, setLoadingWord] = useState<string | null>(null);
   // Track current definition index for each word
   const [definitionIndices, setDefinitionIndices] = useState<Record<string, number>>({});
   // Track whether we're showing compound or individual definitions for edge words
   const [edgeHintMode, setEdgeHintMode] = useState<'compound' | 'individual'>('compound');
+  const [fieldErrors, setFieldErrors] = useState<PuzzleFieldError[]>([]);
+  const [publishing, setPublishing] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [analysis, setAnalysis] = useState<PuzzleAnalysis | null>(null);
+  const [difficulty, setDifficulty] = useState<PuzzleDifficulty | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+
+  // Clues count towards the difficulty rating, so re-check after typing pauses
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setAnalyzing(true);
+      const result = await fetchPuzzleAnalysis(editedGame);
+      if (cancelled) return;
+      // Keep the last report while a clue is being rewritten and briefly invalid
+      if ('analysis' in result) {
+        setAnalysis(result.analysis);
+        setDifficulty(result.difficulty);
+        setAnalysisError(null);
+      } else {
+        setAnalysisError(result.error);
+      }
+      setAnalyzing(false);
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [editedGame]);
+
+  // The definitions API only has English entries
+  const canRegenerate = !editedGame.language;
 
   const updateWordHint = (index: number, hint: string) => {
     setEditedGame((prev) => ({
@@ -115,10 +169,51 @@ export default function GameEditor({ gameInfo, onPublish, onBack }: GameEditorPr
     }
   };
 
-  const handlePublish = () => {
-    onPublish(editedGame);
+  const handlePublish = async () => {
+    const validation = validateGameInfo(editedGame);
+    if (!validation.valid) {
+      setFieldErrors(validation.errors);
+      return;
+    }
+
+    setFieldErrors([]);
+    setPublishing(true);
+    setFieldErrors(await onPublish(validation.gameInfo));
+    setPublishing(false);
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    const result = importPuzzle(content, detectPuzzleFormat(content, file.name));
+
+    if (result.gameInfo) {
+      setEditedGame(result.gameInfo);
+      setDefinitionIndices({});
+      setFieldErrors([]);
+    } else {
+      setFieldErrors(
+        result.errors.map((e) => ({
+          field: 'import',
+          message: e.line ? `${file.name} line ${e.line}: ${e.message}` : `${file.name}: ${e.message}`,
+        }))
+      );
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!onDelete || !window.confirm('Delete this puzzle? Its share link will stop working.')) return;
+    setDeleting(true);
+    try {
+      await onDelete();
+    } finally {
+      setDeleting(false);
+    }
   };
 
+  // Errors rendered next to their inputs; everything else goes in the summary box
+  const inlineFields = ['edgeHint', ...editedGame.words.map((_, i) => `words.${i}.hint`)];
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-100 to-gray-200 p-4">
       <div className="max-w-3xl mx-auto space-y-6">
@@ -130,7 +225,21 @@ export default function GameEditor({ gameInfo, onPublish, onBack }: GameEditorPr
         </button>
 
         <div className="bg-white rounded-lg p-6 space-y-6 shadow-lg border border-gray-200">
-          <h2 className="text-2xl font-bold text-gray-800">Edit Your Puzzle</h2>
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-2xl font-bold text-gray-800">Edit Your Puzzle</h2>
+            <label className="text-sm text-[#0077B5] hover:text-[#006399] font-medium cursor-pointer">
+              Import ipuz file
+              <input
+                type="file"
+                accept=".ipuz,.json,.csv,.txt"
+                onChange={(e) => {
+                  handleImportFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+            </label>
+          </div>
           <p className="text-gray-600">Review and edit the clues before publishing. You can regenerate hints or write your own.</p>
 
           <div className="space-y-6">
@@ -147,15 +256,17 @@ export default function GameEditor({ gameInfo, onPublish, onBack }: GameEditorPr
                   <div className="text-gray-800 font-mono text-xl mb-2 font-bold">{editedGame.edgeWords[1]}</div>
                 </div>
               </div>
-              <div className="pt-2">
-                <button
-                  onClick={regenerateEdgeHint}
-                  disabled={loadingWord === 'edge'}
-                  className="text-xs text-[#0077B5] hover:text-[#006399] disabled:opacity-50 font-medium"
-                >
-                  {loadingWord === 'edge' ? 'Loading...' : 'Regenerate hint'}
-                </button>
-              </div>
+              {canRegenerate && (
+                <div className="pt-2">
+                  <button
+                    onClick={regenerateEdgeHint}
+                    disabled={loadingWord === 'edge'}
+                    className="text-xs text-[#0077B5] hover:text-[#006399] disabled:opacity-50 font-medium"
+                  >
+                    {loadingWord === 'edge' ? 'Loading...' : 'Regenerate hint'}
+                  </button>
+                </div>
+              )}
               <div>
                 <label className="block text-gray-700 text-sm mb-2 font-medium">Edge Hint (shared by both words)</label>
                 <input
@@ -165,6 +276,7 @@ export default function GameEditor({ gameInfo, onPublish, onBack }: GameEditorPr
                   className="w-full p-2 rounded bg-white text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20"
                   placeholder="e.g., Compound word for 'having no shoes or socks on'"
                 />
+                <FieldErrors errors={fieldErrors} field="edgeHint" />
               </div>
             </div>
 
@@ -174,14 +286,26 @@ export default function GameEditor({ gameInfo, onPublish, onBack }: GameEditorPr
               {editedGame.words.map((word, index) => (
                 <div key={index} className="bg-white rounded-lg p-3 space-y-2 border border-gray-200">
                   <div className="flex items-center justify-between">
-                    <div className="text-gray-800 font-mono text-lg font-bold">{word.correct}</div>
-                    <button
-                      onClick={() => regenerateHint(word.correct, index)}
-                      disabled={loadingWord === word.correct}
-                      className="text-xs px-2 py-1 bg-[#0077B5] hover:bg-[#006399] text-white rounded disabled:opacity-50 font-medium"
-                    >
-                      {loadingWord === word.correct ? 'Loading...' : 'Regenerate'}
-                    </button>
+                    <div className="flex items-center gap-2">
+                      <div className="text-gray-800 font-mono text-lg font-bold">{word.correct}</div>
+                      {offThemeWords.includes(word.correct) && (
+                        <span
+                          className="text-xs px-2 py-0.5 rounded bg-amber-100 text-amber-800 font-medium"
+                          title="Not in your word list; the dictionary filled this gap"
+                        >
+                          Off-theme
+                        </span>
+                      )}
+                    </div>
+                    {canRegenerate && (
+                      <button
+                        onClick={() => regenerateHint(word.correct, index)}
+                        disabled={loadingWord === word.correct}
+                        className="text-xs px-2 py-1 bg-[#0077B5] hover:bg-[#006399] text-white rounded disabled:opacity-50 font-medium"
+                      >
+                        {loadingWord === word.correct ? 'Loading...' : 'Regenerate'}
+                      </button>
+                    )}
                   </div>
                   <input
                     type="text"
@@ -190,10 +314,40 @@ export default function GameEditor({ gameInfo, onPublish, onBack }: GameEditorPr
                     className="w-full p-2 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20 text-sm"
                     placeholder="Enter hint for this word"
                   />
+                  <FieldErrors errors={fieldErrors} field={`words.${index}.hint`} />
+                  {analysis?.rungs
+                    .filter((rung) => rung.index === index)
+                    .map((rung) => (
+                      <p key={rung.index} className="text-xs text-amber-700">
+                        Also fits this rung: {rung.alternatives.join(', ')}
+                        {rung.total > rung.alternatives.length && ` (+${rung.total - rung.alternatives.length} more)`}
+                      </p>
+                    ))}
                 </div>
               ))}
             </div>
 
+            <label className="flex items-center gap-2 text-gray-700 text-sm">
+              <input
+                type="checkbox"
+                checked={!!editedGame.unlisted}
+                onChange={(e) => setEditedGame((prev) => ({ ...prev, unlisted: e.target.checked }))}
+              />
+              Unlisted (hidden from Browse; anyone with the link can still play)
+            </label>
+
+            <FieldErrors errors={fieldErrors} exclude={inlineFields} />
+
+            {difficulty && (
+              <div className="flex items-center gap-2 text-sm text-gray-700">
+                Estimated difficulty: <DifficultyBadge level={difficulty.level} score={difficulty.score} />
+              </div>
+            )}
+
+            <AmbiguityWarnings analysis={analysis} loading={analyzing} error={analysisError} />
+
+            <ExportButtons gameInfo={editedGame} />
+
             <div className="flex gap-4">
               <button
                 onClick={onBack}
@@ -203,11 +357,22 @@ export default function GameEditor({ gameInfo, onPublish, onBack }: GameEditorPr
               </button>
               <button
                 onClick={handlePublish}
-                className="flex-1 px-4 py-3 bg-[#0077B5] hover:bg-[#006399] text-white font-bold rounded transition-colors shadow-md hover:shadow-lg"
+                disabled={publishing}
+                className="flex-1 px-4 py-3 bg-[#0077B5] hover:bg-[#006399] disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-bold rounded transition-colors shadow-md hover:shadow-lg"
               >
-                Publish Puzzle
+                {publishing ? 'Publishing...' : publishLabel}
               </button>
             </div>
+
+            {onDelete && (
+              <button
+                onClick={handleDelete}
+                disabled={deleting}
+                className="w-full px-4 py-3 bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white font-bold rounded transition-colors shadow-md"
+              >
+                {deleting ? 'Deleting...' : 'Delete Puzzle'}
+              </button>
+            )}
           </div>
         </div>
       </div>
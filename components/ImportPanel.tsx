@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { GameInfo } from '@/types/game';
+import {
+  detectPuzzleFormat,
+  importPuzzle,
+  PuzzleFileFormat,
+  PuzzleImportError,
+} from '@/utils/puzzleFormats';
+
+interface ImportPanelProps {
+  /** Receives the parsed puzzle, even if it still has errors to fix */
+  onImport: (draft: GameInfo) => void;
+}
+
+export default function ImportPanel({ onImport }: ImportPanelProps) {
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<PuzzleFileFormat | 'auto'>('auto');
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [errors, setErrors] = useState<PuzzleImportError[]>([]);
+  const [imported, setImported] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setContent(await file.text());
+    setImported(false);
+  };
+
+  const handleImport = () => {
+    try {
+      const result = importPuzzle(content, format === 'auto' ? detectPuzzleFormat(content, fileName) : format);
+      setErrors(result.errors);
+      setImported(!!result.draft);
+      if (result.draft) {
+        onImport(result.draft);
+      }
+    } catch (error) {
+      console.error('Error importing puzzle:', error);
+      setErrors([{ message: 'This puzzle could not be imported' }]);
+      setImported(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-3 border border-gray-200">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold text-gray-800">Import Puzzle</h3>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as PuzzleFileFormat | 'auto')}
+          className="p-1 rounded bg-white text-gray-800 border border-gray-300 text-sm"
+        >
+          <option value="auto">Detect format</option>
+          <option value="json">JSON</option>
+          <option value="csv">CSV</option>
+          <option value="text">Plain text</option>
+          <option value="ipuz">ipuz</option>
+        </select>
+      </div>
+      <input
+        type="file"
+        accept=".json,.csv,.txt,.ipuz"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="block w-full text-sm text-gray-700"
+      />
+      <textarea
+        value={content}
+        onChange={(e) => {
+          setContent(e.target.value);
+          setFileName(undefined);
+          setImported(false);
+        }}
+        rows={6}
+        className="w-full p-2 rounded bg-white text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20 font-mono text-sm"
+        placeholder={'Title: My Puzzle\nEdge hint: The top + bottom rows = ...\n\nBARE\nCARE - Compassionate attention\n...\nFOOT'}
+      />
+      <button
+        onClick={handleImport}
+        disabled={!content.trim()}
+        className="px-3 py-1 bg-[#0077B5] hover:bg-[#006399] disabled:bg-gray-400 text-white rounded text-sm font-medium shadow-sm"
+      >
+        Import
+      </button>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded space-y-1 text-sm">
+          {imported && <p className="font-medium">Imported with problems to fix:</p>}
+          {errors.map((error, i) => (
+            <p key={i}>
+              {error.line ? <span className="font-mono">Line {error.line}: </span> : null}
+              {error.message}
+            </p>
+          ))}
+        </div>
+      )}
+      {imported && errors.length === 0 && (
+        <p className="text-sm text-green-700">Imported! Review the puzzle below.</p>
+      )}
+    </div>
+  );
+}
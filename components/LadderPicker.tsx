@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import { LadderCandidate } from '@/types/game';
+
+interface LadderPickerProps {
+  candidates: LadderCandidate[];
+  onChoose: (path: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Lists candidate ladders from the word ladder API so the author can pick one.
+ * The letter that changes at each step is highlighted, and rungs only this
+ * ladder uses are underlined to make near-identical candidates easy to compare.
+ */
+export default function LadderPicker({ candidates, onChoose, disabled }: LadderPickerProps) {
+  const [selected, setSelected] = useState(0);
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold text-gray-800">
+        Choose a ladder ({candidates.length} found)
+      </h3>
+
+      <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+        {candidates.map((candidate, index) => (
+          <label
+            key={candidate.path.join('-')}
+            className={`flex items-start gap-3 p-3 rounded border cursor-pointer transition-colors ${
+              selected === index
+                ? 'border-[#0077B5] bg-blue-50'
+                : 'border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            <input
+              type="radio"
+              name="ladder-candidate"
+              checked={selected === index}
+              onChange={() => setSelected(index)}
+              className="mt-1 accent-[#0077B5]"
+            />
+            <div className="space-y-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-x-1 gap-y-1 font-mono text-gray-800">
+                {candidate.path.map((word, position) => {
+                  const changed = position > 0 ? candidate.changedPositions[position - 1] : -1;
+                  const distinct = candidate.distinctWords.includes(word);
+                  return (
+                    <span key={`${word}-${position}`} className="flex items-center gap-1">
+                      {position > 0 && <span className="text-gray-400">→</span>}
+                      <span className={distinct ? 'underline decoration-[#0077B5] decoration-2 underline-offset-4' : ''}>
+                        {Array.from(word).map((letter, i) => (
+                          <span key={i} className={i === changed ? 'text-[#0077B5] font-bold' : ''}>
+                            {letter}
+                          </span>
+                        ))}
+                      </span>
+                    </span>
+                  );
+                })}
+              </div>
+              <div className="text-xs text-gray-500">
+                {candidate.length - 2} {candidate.length - 2 === 1 ? 'rung' : 'rungs'}
+                {candidate.rarestWord && candidate.commonness !== undefined && (
+                  <> · rarest word {candidate.rarestWord} ({candidate.commonness}/100)</>
+                )}
+              </div>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onChoose(candidates[selected].path)}
+        disabled={disabled}
+        className="w-full p-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-bold rounded transition-colors shadow-md"
+      >
+        Use This Ladder
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { LadderRules } from '@/types/game';
+import { LADDER_RULES } from '@/utils/wordLadder';
+
+const RULE_LABELS: Record<LadderRules, string> = {
+  classic: 'Classic: change one letter',
+  'add-drop': 'Change, add or drop one letter',
+  anagram: 'Change one letter or rearrange them all',
+};
+
+interface LadderRulesSelectProps {
+  value: LadderRules;
+  onChange: (rules: LadderRules) => void;
+  disabled?: boolean;
+}
+
+export default function LadderRulesSelect({ value, onChange, disabled = false }: LadderRulesSelectProps) {
+  return (
+    <div>
+      <label className="block text-gray-700 mb-2 font-medium">Ladder rules</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as LadderRules)}
+        disabled={disabled}
+        className="w-full p-3 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20"
+      >
+        {LADDER_RULES.map((rules) => (
+          <option key={rules} value={rules}>{RULE_LABELS[rules]}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
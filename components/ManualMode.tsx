@@ -1,12 +1,19 @@
 'use client';
 
 import { useState } from 'react';
-import { GameInfo } from '@/types/game';
-import { validateWordLadder } from '@/utils/gameGenerator';
-import { differByOne } from '@/utils/wordLadder';
+import { GameInfo, LadderRules, PuzzleFieldError } from '@/types/game';
+import { validateGameInfo } from '@/utils/puzzleValidation';
+import { LADDER_RULES } from '@/utils/wordLadder';
+import { DEFAULT_DICTIONARY, defaultDictionary, dictionaryLanguage, isDictionaryId } from '@/utils/dictionaries';
+import { DEFAULT_LANGUAGE, isLanguageId, normalizeWord } from '@/utils/languages';
+import FieldErrors from './FieldErrors';
+import ImportPanel from './ImportPanel';
+import LadderRulesSelect from './LadderRulesSelect';
+import DictionarySelect from './DictionarySelect';
+import WordSuggestions from './WordSuggestions';
 
 interface ManualModeProps {
-  onGameCreated: (gameInfo: GameInfo) => void;
+  onGameCreated: (gameInfo: GameInfo) => Promise<PuzzleFieldError[]>;
   onBack: () => void;
 }
 
@@ -18,7 +25,13 @@ export default function ManualMode({ onGameCreated, onBack }: ManualModeProps) {
   const [middleWords, setMiddleWords] = useState<
     Array<{ word: string; hint: string }>
   >([{ word: '', hint: '' }]);
-  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<PuzzleFieldError[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [unlisted, setUnlisted] = useState(false);
+  const [rules, setRules] = useState<LadderRules>('classic');
+  const [dictionary, setDictionary] = useState(DEFAULT_DICTIONARY);
+  const language = dictionaryLanguage(dictionary);
 
   const addMiddleWord = () => {
     setMiddleWords([...middleWords, { word: '', hint: '' }]);
@@ -32,81 +45,76 @@ export default function ManualMode({ onGameCreated, onBack }: ManualModeProps) {
 
   const updateMiddleWord = (index: number, field: 'word' | 'hint', value: string) => {
     const updated = [...middleWords];
-    updated[index] = { ...updated[index], [field]: value.toUpperCase() };
+    updated[index] = {
+      ...updated[index],
+      [field]: field === 'word' ? normalizeWord(value, language) : value.toUpperCase(),
+    };
     setMiddleWords(updated);
   };
 
-  const handleCreate = () => {
-    setError(null);
-
-    // Validate title
-    if (!title.trim()) {
-      setError('Please enter a title for your puzzle');
-      return;
-    }
-
-    // Validate edge words
-    if (!edgeWords[0] || !edgeWords[1]) {
-      setError('Please enter both starting and ending words');
-      return;
-    }
-
-    if (edgeWords[0].length !== edgeWords[1].length) {
-      setError('Starting and ending words must have the same length');
-      return;
-    }
+  const handleImport = (draft: GameInfo) => {
+    // Drafts come straight from a file, so don't trust their shape
+    const text = (value: unknown) => (typeof value === 'string' ? value : '');
+    const edges = Array.isArray(draft.edgeWords) ? draft.edgeWords : [];
+    const words = Array.isArray(draft.words) ? draft.words : [];
+    const draftLanguage = isLanguageId(draft.language) ? draft.language : DEFAULT_LANGUAGE;
+    const spell = (value: unknown) => normalizeWord(text(value), draftLanguage);
 
-    // Validate middle words
-    const allMiddleWords = middleWords.map((m) => m.word.toUpperCase()).filter((w) => w);
-    if (allMiddleWords.length === 0) {
-      setError('Please add at least one middle word');
-      return;
-    }
+    setTitle(text(draft.title));
+    setAuthor(text(draft.author));
+    setEdgeWords([spell(edges[0]), spell(edges[1])]);
+    setEdgeHint(text(draft.edgeHint));
+    setUnlisted(draft.unlisted === true);
+    setRules(draft.rules && LADDER_RULES.includes(draft.rules) ? draft.rules : 'classic');
+    setDictionary(isDictionaryId(draft.dictionary) ? draft.dictionary : defaultDictionary(draftLanguage));
+    setMiddleWords(
+      words.length > 0
+        ? words.map((w) => ({ word: spell(w?.correct), hint: text(w?.hint) }))
+        : [{ word: '', hint: '' }]
+    );
+    setFieldErrors([]);
+  };
 
-    // Check all words have same length
-    const wordLength = edgeWords[0].length;
-    if (
-      !allMiddleWords.every((w) => w.length === wordLength) ||
-      edgeWords[1].length !== wordLength
-    ) {
-      setError('All words must have the same length');
-      return;
-    }
+  const handleCreate = async () => {
+    setFieldErrors([]);
 
-    // Check all words have hints
-    if (!allMiddleWords.every((w, i) => middleWords[i].hint.trim())) {
-      setError('Please provide hints for all middle words');
-      return;
-    }
+    const validation = validateGameInfo({
+      title,
+      author,
+      words: middleWords.map((mw) => ({ correct: mw.word, hint: mw.hint })),
+      edgeWords,
+      edgeHint,
+      unlisted,
+      rules: rules === 'classic' ? undefined : rules,
+      dictionary: dictionary === defaultDictionary(language) ? undefined : dictionary,
+      language: language === DEFAULT_LANGUAGE ? undefined : language,
+    });
 
-    if (!edgeHint.trim()) {
-      setError('Please provide a hint for the edge words');
+    if (!validation.valid) {
+      setFieldErrors(validation.errors);
       return;
     }
 
-    // Validate word ladder
-    const allWords = [edgeWords[0].toUpperCase(), ...allMiddleWords, edgeWords[1].toUpperCase()];
-    if (!validateWordLadder(allWords)) {
-      setError(
-        'Invalid word ladder! Each word must differ by exactly one letter from the next word.'
-      );
-      return;
-    }
+    setSubmitting(true);
+    const serverErrors = await onGameCreated(validation.gameInfo);
+    setFieldErrors(serverErrors);
+    setSubmitting(false);
+  };
 
-    // Create game info
-    const gameInfo: GameInfo = {
-      title: title.trim(),
-      author: author.trim() || undefined,
-      words: allMiddleWords.map((word, i) => ({
-        correct: word,
-        hint: middleWords[i].hint,
-      })),
-      edgeWords: [edgeWords[0].toUpperCase(), edgeWords[1].toUpperCase()],
-      edgeHint,
-    };
+  const ladder = [edgeWords[0], ...middleWords.map((mw) => mw.word), edgeWords[1]];
 
-    onGameCreated(gameInfo);
-  };
+  // Errors rendered next to their inputs; everything else goes in the summary box
+  const inlineFields = [
+    'title',
+    'author',
+    'edgeWords.0',
+    'edgeWords.1',
+    'edgeHint',
+    'rules',
+    'dictionary',
+    'language',
+    ...middleWords.flatMap((_, i) => [`words.${i}.correct`, `words.${i}.hint`]),
+  ];
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-100 to-gray-200 p-4">
@@ -119,7 +127,17 @@ export default function ManualMode({ onGameCreated, onBack }: ManualModeProps) {
         </button>
 
         <div className="bg-white rounded-lg p-6 space-y-6 shadow-lg border border-gray-200">
-          <h2 className="text-2xl font-bold text-gray-800">Manual Creation Mode</h2>
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold text-gray-800">Manual Creation Mode</h2>
+            <button
+              onClick={() => setShowImport(!showImport)}
+              className="text-sm text-[#0077B5] hover:text-[#006399] font-medium"
+            >
+              {showImport ? 'Hide import' : 'Import from file'}
+            </button>
+          </div>
+
+          {showImport && <ImportPanel onImport={handleImport} />}
 
           <div className="space-y-4">
             <div>
@@ -134,6 +152,7 @@ export default function ManualMode({ onGameCreated, onBack }: ManualModeProps) {
                 placeholder="e.g., My Awesome Puzzle"
                 maxLength={100}
               />
+              <FieldErrors errors={fieldErrors} field="title" />
             </div>
 
             <div>
@@ -146,6 +165,18 @@ export default function ManualMode({ onGameCreated, onBack }: ManualModeProps) {
                 placeholder="Your name"
                 maxLength={50}
               />
+              <FieldErrors errors={fieldErrors} field="author" />
+            </div>
+
+            <div>
+              <LadderRulesSelect value={rules} onChange={setRules} />
+              <FieldErrors errors={fieldErrors} field="rules" />
+            </div>
+
+            <div>
+              <DictionarySelect value={dictionary} onChange={setDictionary} />
+              <FieldErrors errors={fieldErrors} field="dictionary" />
+              <FieldErrors errors={fieldErrors} field="language" />
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -155,11 +186,12 @@ export default function ManualMode({ onGameCreated, onBack }: ManualModeProps) {
                   type="text"
                   value={edgeWords[0]}
                   onChange={(e) =>
-                    setEdgeWords([e.target.value.toUpperCase(), edgeWords[1]])
+                    setEdgeWords([normalizeWord(e.target.value, language), edgeWords[1]])
                   }
                   className="w-full p-3 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20 font-mono"
                   placeholder="e.g., BARE"
                 />
+                <FieldErrors errors={fieldErrors} field="edgeWords.0" />
               </div>
 
               <div>
@@ -168,11 +200,12 @@ export default function ManualMode({ onGameCreated, onBack }: ManualModeProps) {
                   type="text"
                   value={edgeWords[1]}
                   onChange={(e) =>
-                    setEdgeWords([edgeWords[0], e.target.value.toUpperCase()])
+                    setEdgeWords([edgeWords[0], normalizeWord(e.target.value, language)])
                   }
                   className="w-full p-3 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20 font-mono"
                   placeholder="e.g., FOOT"
                 />
+                <FieldErrors errors={fieldErrors} field="edgeWords.1" />
               </div>
             </div>
 
@@ -185,6 +218,7 @@ export default function ManualMode({ onGameCreated, onBack }: ManualModeProps) {
                 className="w-full p-3 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20"
                 placeholder="e.g., Compound word for 'having no shoes or socks on'"
               />
+              <FieldErrors errors={fieldErrors} field="edgeHint" />
             </div>
 
             <div>
@@ -202,24 +236,39 @@ export default function ManualMode({ onGameCreated, onBack }: ManualModeProps) {
                 {middleWords.map((mw, index) => (
                   <div key={index} className="flex gap-2 items-start">
                     <div className="flex-1 grid grid-cols-2 gap-2">
-                      <input
-                        type="text"
-                        value={mw.word}
-                        onChange={(e) =>
-                          updateMiddleWord(index, 'word', e.target.value)
-                        }
-                        className="p-2 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20 font-mono"
-                        placeholder="Word"
-                      />
-                      <input
-                        type="text"
-                        value={mw.hint}
-                        onChange={(e) =>
-                          updateMiddleWord(index, 'hint', e.target.value)
-                        }
-                        className="p-2 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20"
-                        placeholder="Hint"
-                      />
+                      <div>
+                        <input
+                          type="text"
+                          value={mw.word}
+                          onChange={(e) =>
+                            updateMiddleWord(index, 'word', e.target.value)
+                          }
+                          className="w-full p-2 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20 font-mono"
+                          placeholder="Word"
+                        />
+                        <WordSuggestions
+                          above={ladder[index]}
+                          below={ladder[index + 2]}
+                          value={mw.word}
+                          exclude={ladder}
+                          dictionary={dictionary}
+                          language={language}
+                          onPick={(word) => updateMiddleWord(index, 'word', word)}
+                        />
+                        <FieldErrors errors={fieldErrors} field={`words.${index}.correct`} />
+                      </div>
+                      <div>
+                        <input
+                          type="text"
+                          value={mw.hint}
+                          onChange={(e) =>
+                            updateMiddleWord(index, 'hint', e.target.value)
+                          }
+                          className="w-full p-2 rounded bg-gray-50 text-gray-800 border border-gray-300 focus:outline-none focus:border-[#0077B5] focus:ring-2 focus:ring-[#0077B5]/20"
+                          placeholder="Hint"
+                        />
+                        <FieldErrors errors={fieldErrors} field={`words.${index}.hint`} />
+                      </div>
                     </div>
                     {middleWords.length > 1 && (
                       <button
@@ -234,15 +283,23 @@ export default function ManualMode({ onGameCreated, onBack }: ManualModeProps) {
               </div>
             </div>
 
-            {error && (
-              <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded">{error}</div>
-            )}
+            <label className="flex items-center gap-2 text-gray-700 text-sm">
+              <input
+                type="checkbox"
+                checked={unlisted}
+                onChange={(e) => setUnlisted(e.target.checked)}
+              />
+              Unlisted (hidden from Browse; anyone with the link can still play)
+            </label>
+
+            <FieldErrors errors={fieldErrors} exclude={inlineFields} />
 
             <button
               onClick={handleCreate}
-              className="w-full p-3 bg-[#0077B5] hover:bg-[#006399] text-white font-bold rounded transition-colors shadow-md hover:shadow-lg"
+              disabled={submitting}
+              className="w-full p-3 bg-[#0077B5] hover:bg-[#006399] disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-bold rounded transition-colors shadow-md hover:shadow-lg"
             >
-              Create Puzzle
+              {submitting ? 'Creating...' : 'Create Puzzle'}
             </button>
           </div>
         </div>
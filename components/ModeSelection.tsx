@@ -1,7 +1,9 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { GameMode } from '@/types/game';
+import { listOwnedPuzzles, OwnedPuzzle } from '@/utils/ownedPuzzles';
 
 interface ModeSelectionProps {
   onSelectMode: (mode: 'auto' | 'manual') => void;
@@ -9,6 +11,12 @@ interface ModeSelectionProps {
 
 export default function ModeSelection({ onSelectMode }: ModeSelectionProps) {
   const [showAbout, setShowAbout] = useState(false);
+  const [ownedPuzzles, setOwnedPuzzles] = useState<OwnedPuzzle[]>([]);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setOwnedPuzzles(listOwnedPuzzles());
+  }, []);
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-[#0077B5] via-[#005885] to-[#003d55] p-4">
@@ -88,6 +96,49 @@ export default function ModeSelection({ onSelectMode }: ModeSelectionProps) {
             </p>
           </button>
         </div>
+
+        <div className="flex flex-wrap justify-center gap-x-6 gap-y-2">
+          <Link href="/daily" className="text-white/90 hover:text-white font-medium underline underline-offset-4">
+            Today&apos;s puzzle →
+          </Link>
+          <Link href="/browse" className="text-white/90 hover:text-white font-medium underline underline-offset-4">
+            Browse puzzles made by others →
+          </Link>
+        </div>
+
+        {ownedPuzzles.length > 0 && (
+          <div className="p-6 bg-white/10 backdrop-blur-sm rounded-xl border border-white/30 space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold text-white">Your Puzzles</h2>
+              {ownedPuzzles.length > 1 && (
+                <Link
+                  href={`/print/${ownedPuzzles.map((p) => p.id).join(',')}`}
+                  className="text-sm font-medium text-white/80 hover:text-white"
+                >
+                  Print all
+                </Link>
+              )}
+            </div>
+            <ul className="space-y-2">
+              {ownedPuzzles.map((puzzle) => (
+                <li key={puzzle.id} className="flex items-center justify-between gap-4">
+                  <span className="text-blue-100 truncate">{puzzle.title || puzzle.id}</span>
+                  <span className="flex gap-3 text-sm font-medium shrink-0">
+                    <Link href={`/play/${puzzle.id}`} className="text-white/80 hover:text-white">
+                      Play
+                    </Link>
+                    <Link href={`/edit/${puzzle.id}`} className="text-white/80 hover:text-white">
+                      Edit
+                    </Link>
+                    <Link href={`/print/${puzzle.id}`} className="text-white/80 hover:text-white">
+                      Print
+                    </Link>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
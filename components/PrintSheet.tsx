@@ -0,0 +1,128 @@
+import { GameInfo } from '@/types/game';
+import { LADDER_RULE_STEPS } from '@/utils/wordLadder';
+
+interface PrintSheetProps {
+  gameInfo: GameInfo;
+  /** Used to derive a stable clue order so the answer key always matches */
+  seed: string;
+  showAnswers: boolean;
+}
+
+/**
+ * Shuffle deterministically from a string seed (mulberry32 over a simple hash)
+ */
+function seededShuffle<T>(items: T[], seed: string): T[] {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  }
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function LetterBoxes({ length, letters, shaded = false }: { length: number; letters?: string; shaded?: boolean }) {
+  return (
+    <div className="flex gap-1">
+      {Array.from({ length }, (_, i) => (
+        <div
+          key={i}
+          className={`w-8 h-8 border-2 border-gray-800 flex items-center justify-center font-bold text-lg ${
+            shaded ? 'bg-gray-200' : 'bg-white'
+          }`}
+        >
+          {letters?.[i] || ''}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function PrintSheet({ gameInfo, seed, showAnswers }: PrintSheetProps) {
+  // Players see the clues in a scrambled order, just like the game shuffles rows
+  const clues = seededShuffle(gameInfo.words, seed);
+
+  return (
+    <>
+      <section className="bg-white text-gray-900 p-8 break-after-page space-y-6">
+        <header className="border-b-2 border-gray-800 pb-2">
+          <h1 className="text-2xl font-bold">{gameInfo.title || 'Crossclimb'}</h1>
+          {gameInfo.author && <p className="text-sm text-gray-600">by {gameInfo.author}</p>}
+          <p className="text-sm text-gray-600 mt-1">
+            {gameInfo.rules && gameInfo.rules !== 'classic'
+              ? `Solve each clue, then write the answers in the boxes in ladder order; each step must ${LADDER_RULE_STEPS[gameInfo.rules]}.`
+              : 'Solve each clue, then write the answers in the boxes so each word differs from the next by one letter.'}{' '}
+            Finally, fill in the shaded top and bottom rows.
+          </p>
+        </header>
+
+        <div className="grid grid-cols-2 gap-8">
+          <ol className="space-y-2 text-sm">
+            {clues.map((word, i) => (
+              <li key={i} className="break-inside-avoid">
+                <span className="font-bold mr-2">{i + 1}.</span>
+                {word.hint}
+              </li>
+            ))}
+          </ol>
+
+          <div className="space-y-2">
+            <div className="break-inside-avoid">
+              <LetterBoxes length={gameInfo.edgeWords[0].length} shaded />
+            </div>
+            {gameInfo.words.map((word, i) => (
+              <div key={i} className="break-inside-avoid">
+                <LetterBoxes length={word.correct.length} />
+              </div>
+            ))}
+            <div className="break-inside-avoid">
+              <LetterBoxes length={gameInfo.edgeWords[1].length} shaded />
+            </div>
+          </div>
+        </div>
+
+        <div className="break-inside-avoid border-2 border-dashed border-gray-500 rounded p-3 text-sm">
+          <span className="font-bold">Top + bottom rows (locked until the ladder is sorted): </span>
+          {gameInfo.edgeHint}
+        </div>
+      </section>
+
+      {showAnswers && (
+        <section className="bg-white text-gray-900 p-8 break-after-page space-y-4">
+          <h2 className="text-xl font-bold border-b-2 border-gray-800 pb-2">
+            Answer key: {gameInfo.title || 'Crossclimb'}
+          </h2>
+          <div className="grid grid-cols-2 gap-8">
+            <ol className="space-y-1 text-sm">
+              {clues.map((word, i) => (
+                <li key={i} className="break-inside-avoid">
+                  <span className="font-bold mr-2">{i + 1}.</span>
+                  <span className="font-mono">{word.correct}</span>
+                </li>
+              ))}
+            </ol>
+            <div className="space-y-2">
+              <LetterBoxes length={gameInfo.edgeWords[0].length} letters={gameInfo.edgeWords[0]} shaded />
+              {gameInfo.words.map((word, i) => (
+                <div key={i} className="break-inside-avoid">
+                  <LetterBoxes length={word.correct.length} letters={word.correct} />
+                </div>
+              ))}
+              <LetterBoxes length={gameInfo.edgeWords[1].length} letters={gameInfo.edgeWords[1]} shaded />
+            </div>
+          </div>
+        </section>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { GameInfo } from '@/types/game';
+import { buildPortableLink } from '@/utils/portableLink';
+
+interface ShareLinksProps {
+  puzzleId: string;
+  gameInfo: GameInfo;
+  /** False when the server could not store the puzzle */
+  savedOnServer: boolean;
+  onPlay: () => void;
+  onBack: () => void;
+}
+
+export default function ShareLinks({ puzzleId, gameInfo, savedOnServer, onPlay, onBack }: ShareLinksProps) {
+  const [portableLink, setPortableLink] = useState('');
+  const [copied, setCopied] = useState<'short' | 'portable' | null>(null);
+  const shortLink = typeof window !== 'undefined' ? `${window.location.origin}/play/${puzzleId}` : '';
+
+  useEffect(() => {
+    buildPortableLink(window.location.origin, gameInfo).then(setPortableLink);
+  }, [gameInfo]);
+
+  const handleCopy = (kind: 'short' | 'portable', link: string) => {
+    navigator.clipboard.writeText(link);
+    setCopied(kind);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-100 to-gray-200 p-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <button
+          onClick={onBack}
+          className="text-[#0077B5] hover:text-[#006399] mb-4 font-medium"
+        >
+          ← Back
+        </button>
+
+        <div className="bg-white rounded-lg p-6 space-y-6 shadow-lg border border-gray-200">
+          <h2 className="text-2xl font-bold text-gray-800">Your puzzle is ready!</h2>
+
+          <div className="space-y-2">
+            <label className="block text-gray-700 font-medium">Short link</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={shortLink}
+                className="flex-1 p-2 rounded bg-gray-50 text-gray-800 border border-gray-300 font-mono text-sm"
+              />
+              <button
+                onClick={() => handleCopy('short', shortLink)}
+                className="px-4 py-2 bg-[#0077B5] hover:bg-[#006399] text-white rounded text-sm font-medium shadow-sm"
+              >
+                {copied === 'short' ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              {savedOnServer
+                ? 'Loads the puzzle from our server, so later edits show up for everyone.'
+                : 'The server could not save this puzzle, so the short link only works in this browser for now.'}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-gray-700 font-medium">Portable link</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={portableLink || 'Generating...'}
+                className="flex-1 p-2 rounded bg-gray-50 text-gray-800 border border-gray-300 font-mono text-sm"
+              />
+              <button
+                onClick={() => handleCopy('portable', portableLink)}
+                disabled={!portableLink}
+                className="px-4 py-2 bg-[#0077B5] hover:bg-[#006399] disabled:bg-gray-400 text-white rounded text-sm font-medium shadow-sm"
+              >
+                {copied === 'portable' ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              The whole puzzle is packed into the link itself, so it keeps working without our server. Edits are not reflected.
+            </p>
+          </div>
+
+          <button
+            onClick={onPlay}
+            className="w-full p-3 bg-[#0077B5] hover:bg-[#006399] text-white font-bold rounded transition-colors shadow-md hover:shadow-lg"
+          >
+            Play Puzzle
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -16,7 +16,7 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { Game } from '@/types/game';
+import { Game, LanguageId } from '@/types/game';
 import Word, { WordRef } from './Word';
 import Icon from './Icon';
 import { useRef, forwardRef, useImperativeHandle, useState, useEffect } from 'react';
@@ -44,6 +44,8 @@ interface SortableItemProps {
   isReadonly: boolean;
   focusedIndex: number | null;
   isHighlighted: boolean;
+  columns?: number;
+  language?: LanguageId;
   onWordChange: (letters: string[]) => void;
   onFocusedChange: (index: number) => void;
   onLastKeydown: () => void;
@@ -60,6 +62,8 @@ function SortableItem({
   isReadonly,
   focusedIndex,
   isHighlighted,
+  columns,
+  language,
   onWordChange,
   onFocusedChange,
   onLastKeydown,
@@ -119,6 +123,8 @@ function SortableItem({
           isLocked={isLocked}
           isHighlighted={isHighlighted}
           correctWord={word.correct}
+          columns={columns}
+          language={language}
           onLettersChange={onWordChange}
           onFocusedChange={(idx) => onFocusedChange(index)}
           onLastKeydown={onLastKeydown}
@@ -208,6 +214,10 @@ const SortableWordList = forwardRef<SortableWordListRef, SortableWordListProps>(
     }
   };
 
+  // Rows only differ in length under add/drop rules; then size letters to the longest row
+  const lengths = [...game.edgeWords, ...game.words.map((w) => w.correct)].map((w) => w.length);
+  const columns = lengths.some((length) => length !== lengths[0]) ? Math.max(...lengths) : undefined;
+
   // Adjust focused index: 0 = top edge, 1-5 = middle words, 6 = bottom edge
   const getActualFocusedIndex = (index: number) => {
     return index + 1; // Middle words start at index 1
@@ -262,6 +272,8 @@ const SortableWordList = forwardRef<SortableWordListRef, SortableWordListProps>(
           isFinal={true}
           isLocked={gameStatus !== 'sorted' && gameStatus !== 'solved'}
           isUnlocking={isUnlocking}
+          columns={columns}
+          language={game.language}
           onLettersChange={onTopEdgeChange}
           onFocusedChange={() => onFocusedChange(0)}
           onLastKeydown={handleTopEdgeLastKeydown}
@@ -286,6 +298,8 @@ const SortableWordList = forwardRef<SortableWordListRef, SortableWordListProps>(
               isReadonly={isReadonly}
               focusedIndex={focusedIndex}
               isHighlighted={focusedIndex === actualIndex}
+              columns={columns}
+              language={game.language}
               onWordChange={(letters) =>
                 onWordChange(index, letters.join(''))
               }
@@ -313,6 +327,8 @@ const SortableWordList = forwardRef<SortableWordListRef, SortableWordListProps>(
           isFinal={true}
           isLocked={gameStatus !== 'sorted' && gameStatus !== 'solved'}
           isUnlocking={isUnlocking}
+          columns={columns}
+          language={game.language}
           onLettersChange={onBottomEdgeChange}
           onFocusedChange={() =>
             onFocusedChange(game.words.length + 1)
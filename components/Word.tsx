@@ -1,6 +1,8 @@
 'use client';
 
 import { useEffect, useRef, useState, useImperativeHandle, forwardRef } from 'react';
+import { LanguageId } from '@/types/game';
+import { normalizeLetter } from '@/utils/languages';
 
 export interface WordRef {
   focus: (letterIndex?: number) => void;
@@ -14,6 +16,10 @@ interface WordProps {
   isHighlighted?: boolean;
   correctWord?: string;
   isUnlocking?: boolean;
+  /** Letter slots in the longest row; set when rows differ in length so letters line up */
+  columns?: number;
+  /** Decides which keys count as letters and how they are spelled; English when omitted */
+  language?: LanguageId;
   onLettersChange?: (letters: string[]) => void;
   onFocusedChange?: (index: number | null) => void;
   onLastKeydown?: () => void;
@@ -27,6 +33,8 @@ const Word = forwardRef<WordRef, WordProps>(({
   isHighlighted = false,
   correctWord,
   isUnlocking = false,
+  columns,
+  language,
   onLettersChange,
   onFocusedChange,
   onLastKeydown,
@@ -66,9 +74,8 @@ const Word = forwardRef<WordRef, WordProps>(({
     }
 
     const currentLetter = letters[index] || ' ';
-    const isLetter = /^[a-zA-Z]$/.test(e.key);
-    const letter = e.key.toUpperCase();
-    const previousLetter = currentLetter.toUpperCase();
+    // Accented keys fold to the base letter unless the language has them as letters
+    const letter = normalizeLetter(e.key, language);
 
     if (e.key === 'Backspace' || e.key === 'Delete') {
       e.preventDefault();
@@ -82,7 +89,7 @@ const Word = forwardRef<WordRef, WordProps>(({
 
     e.preventDefault();
 
-    if (isLetter && letter !== previousLetter) {
+    if (letter && letter !== currentLetter) {
       const newLetters = letters.map((l, i) => (i === index ? letter : l));
       onLettersChange?.(newLetters);
 
@@ -120,14 +127,18 @@ const Word = forwardRef<WordRef, WordProps>(({
   }));
 
   return (
-    <div className={`relative flex justify-evenly rounded-lg p-3 transition-all duration-500 ${
+    <div className={`relative flex ${columns ? 'justify-center' : 'justify-evenly'} rounded-lg p-3 transition-all duration-500 ${
       isFinal && !isLocked ? 'bg-[#FFCBA4]' : 
       isLocked ? 'bg-[#FFCBA4]' :
       isHighlighted ? 'bg-blue-200' :
       'bg-white'
     } ${isLocked ? 'opacity-100' : ''}`}>
       {letters.map((letter, i) => (
-        <div key={i} className="relative w-8">
+        <div
+          key={i}
+          className={`relative ${columns ? '' : 'w-8'}`}
+          style={columns ? { width: `${100 / columns}%` } : undefined}
+        >
           <input
             ref={(el) => { inputRefs.current[i] = el; }}
             type="text"
@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { LanguageId, WordNeighbor } from '@/types/game';
+import { fetchWordNeighbors } from '@/utils/gameGenerator';
+import { isLanguageWord } from '@/utils/languages';
+import { differByOne } from '@/utils/wordLadder';
+
+const MAX_SUGGESTIONS = 8;
+
+interface WordSuggestionsProps {
+  /** The rows around this one; empty when not filled in yet */
+  above: string;
+  below: string;
+  /** What the author has typed so far, used as a prefix filter */
+  value: string;
+  /** Words already in the ladder */
+  exclude: string[];
+  dictionary: string;
+  language: LanguageId;
+  onPick: (word: string) => void;
+}
+
+/**
+ * Dictionary words that fit between the filled rows above and below a
+ * middle-word input, most common first
+ */
+export default function WordSuggestions({
+  above,
+  below,
+  value,
+  exclude,
+  dictionary,
+  language,
+  onPick,
+}: WordSuggestionsProps) {
+  const [anchor, ...others] = [above, below].filter((word) => isLanguageWord(word, language));
+  const [lookup, setLookup] = useState<{ word: string; neighbors: WordNeighbor[] } | null>(null);
+
+  useEffect(() => {
+    if (!anchor) return;
+    let cancelled = false;
+    // Wait for the author to stop typing in the row being looked up
+    const timer = setTimeout(async () => {
+      const result = await fetchWordNeighbors(anchor, dictionary);
+      if (!cancelled) {
+        setLookup({ word: anchor, neighbors: 'neighbors' in result ? result.neighbors : [] });
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [anchor, dictionary]);
+
+  // Nothing to suggest from, the answer is already typed out, or the lookup is stale
+  if (!anchor || value.length >= anchor.length || lookup?.word !== anchor) return null;
+
+  const suggestions = lookup.neighbors
+    .filter(
+      (neighbor) =>
+        neighbor.word.startsWith(value) &&
+        !exclude.includes(neighbor.word) &&
+        others.every((other) => differByOne(neighbor.word, other))
+    )
+    .slice(0, MAX_SUGGESTIONS);
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1 text-xs">
+      <span className="text-gray-500">
+        {others.length > 0 ? `Fits ${anchor} and ${others[0]}:` : `One letter from ${anchor}:`}
+      </span>
+      {suggestions.map((suggestion) => (
+        <button
+          key={suggestion.word}
+          type="button"
+          onClick={() => onPick(suggestion.word)}
+          title={suggestion.commonness !== undefined ? `Commonness ${suggestion.commonness}/100` : undefined}
+          className="px-2 py-0.5 rounded border border-gray-300 bg-white hover:border-[#0077B5] hover:bg-[#0077B5]/5 font-mono text-gray-800"
+        >
+          {Array.from(suggestion.word).map((letter, i) => (
+            <span key={i} className={i === suggestion.position ? 'text-[#0077B5] font-bold' : ''}>
+              {letter}
+            </span>
+          ))}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DictionaryInfo } from '@/utils/dictionaries';
+import { fetchDictionaries } from '@/utils/gameGenerator';
+
+// Installed dictionaries only change when the server is redeployed; ask once per page load
+let installed: Promise<DictionaryInfo[] | null> | null = null;
+
+/**
+ * Dictionaries the server can search, or null while loading or if the
+ * server could not be asked
+ */
+export function useDictionaries(): DictionaryInfo[] | null {
+  const [dictionaries, setDictionaries] = useState<DictionaryInfo[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!installed) {
+      installed = fetchDictionaries().then((result) => {
+        if ('dictionaries' in result) return result.dictionaries;
+        // Ask again next time something needs the list
+        installed = null;
+        return null;
+      });
+    }
+    installed.then((list) => {
+      if (!cancelled) setDictionaries(list);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return dictionaries;
+}
@@ -2,7 +2,7 @@
 
 import { useState, useCallback, useMemo, useEffect } from 'react';
 import { Game, GameStatus, GameInfo } from '@/types/game';
-import { differByOne } from '@/utils/wordLadder';
+import { isLadderStep } from '@/utils/wordLadder';
 
 export function useGame() {
   const [game, setGame] = useState<Game | null>(null);
@@ -23,7 +23,7 @@ export function useGame() {
       game.words.every(
         (word, i) =>
           i === game.words.length - 1 ||
-          differByOne(word.current, game.words[i + 1].current)
+          isLadderStep(word.current, game.words[i + 1].current, game.rules)
       );
 
     if (!isSorted) return 'unsorted';
@@ -34,10 +34,11 @@ export function useGame() {
       game.currentEdgeWords.every((word, i) =>
         game.edgeWords.some((ew) => ew.toUpperCase() === word.toUpperCase())
       ) &&
-      differByOne(game.currentEdgeWords[0], game.words[0].current) &&
-      differByOne(
+      isLadderStep(game.currentEdgeWords[0], game.words[0].current, game.rules) &&
+      isLadderStep(
         game.currentEdgeWords[1],
-        game.words[game.words.length - 1].current
+        game.words[game.words.length - 1].current,
+        game.rules
       );
 
     if (!isSolved) return 'sorted';
@@ -64,9 +65,8 @@ export function useGame() {
   }, [gameStatus, focusedIndex, game]);
 
   const initGame = useCallback((gameInfo: GameInfo) => {
-    const emptyString = Array(gameInfo.edgeWords[0].length)
-      .fill(' ')
-      .join('');
+    // Each row starts blank at its own length; they only differ under add/drop rules
+    const blank = (word: string) => ' '.repeat(word.length);
 
     const shuffledWords = [...gameInfo.words].sort(() => Math.random() - 0.5);
 
@@ -74,9 +74,9 @@ export function useGame() {
       ...gameInfo,
       words: shuffledWords.map((word) => ({
         ...word,
-        current: emptyString,
+        current: blank(word.correct),
       })),
-      currentEdgeWords: [emptyString, emptyString],
+      currentEdgeWords: [blank(gameInfo.edgeWords[0]), blank(gameInfo.edgeWords[1])],
       startTime: Date.now(),
     });
 
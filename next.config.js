@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    // sql.js loads its .wasm file relative to its own module path
+    serverComponentsExternalPackages: ['sql.js'],
+  },
+}
 
 module.exports = nextConfig
-
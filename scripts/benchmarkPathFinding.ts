@@ -0,0 +1,115 @@
+import { performance } from 'perf_hooks';
+import { loadDictionary } from '../utils/dictionaryData';
+import { searchLadder } from '../utils/wordLadder';
+
+type WordGraph = Record<string, string[]>;
+
+// Mix of short hops and long ladders through the dense 4-6 letter graphs
+const PAIRS: [string, string][] = [
+  ['CAT', 'DOG'],
+  ['APE', 'MAN'],
+  ['COLD', 'WARM'],
+  ['HEAD', 'TAIL'],
+  ['LOVE', 'HATE'],
+  ['WORK', 'PLAY'],
+  ['BLACK', 'WHITE'],
+  ['STONE', 'MONEY'],
+  ['SLEEP', 'DREAM'],
+  ['FLOUR', 'BREAD'],
+  ['CHARGE', 'COMEDO'],
+  ['SUMMER', 'WINTER'],
+];
+
+const RUNS = Number(process.env.BENCHMARK_RUNS) || 20;
+
+/**
+ * The single-ended BFS the API used before: copies the whole path into every
+ * queue entry and dequeues with shift()
+ */
+function legacyShortestPath(start: string, end: string, graph: WordGraph): string[] | null {
+  const visited = new Set<string>([start]);
+  const queue: { word: string; path: string[] }[] = [{ word: start, path: [start] }];
+
+  while (queue.length > 0) {
+    const { word, path } = queue.shift()!;
+    if (word === end) return path;
+    for (const neighbor of graph[word] || []) {
+      if (!visited.has(neighbor)) {
+        visited.add(neighbor);
+        queue.push({ word: neighbor, path: [...path, neighbor] });
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Median wall time of `RUNS` calls, after one warm-up call whose result is returned
+ */
+function time(search: () => string[] | null): { ms: number; path: string[] | null } {
+  const path = search();
+  const samples: number[] = [];
+  for (let i = 0; i < RUNS; i++) {
+    const started = performance.now();
+    search();
+    samples.push(performance.now() - started);
+  }
+  samples.sort((a, b) => a - b);
+  return { ms: samples[Math.floor(samples.length / 2)], path };
+}
+
+/**
+ * Compare the legacy BFS with the bidirectional and A* searches over a fixed
+ * set of word pairs. Run `npm run preprocess` first.
+ */
+function benchmarkPathFinding() {
+  console.log(`Median of ${RUNS} runs per search (ms)\n`);
+  console.log(['pair'.padEnd(18), 'words', 'legacy', 'bidir', 'a*', 'speedup'].join('\t'));
+
+  const totals = { legacy: 0, bidirectional: 0, astar: 0 };
+  for (const [start, end] of PAIRS) {
+    const dictionary = loadDictionary(start.length);
+    if (!dictionary) {
+      console.log(`${start} -> ${end}: no ${start.length}-letter dictionary, skipping`);
+      continue;
+    }
+    const graph = dictionary.graph;
+    const neighbors = (word: string) => graph[word] || [];
+
+    const legacy = time(() => legacyShortestPath(start, end, graph));
+    const bidirectional = time(() => searchLadder(start, end, neighbors));
+    const astar = time(() => searchLadder(start, end, neighbors, { strategy: 'astar' }));
+
+    const lengths = [legacy, bidirectional, astar].map((result) => result.path?.length ?? 0);
+    if (new Set(lengths).size > 1) {
+      throw new Error(`${start} -> ${end}: searches disagree on ladder length (${lengths.join(', ')})`);
+    }
+
+    totals.legacy += legacy.ms;
+    totals.bidirectional += bidirectional.ms;
+    totals.astar += astar.ms;
+    const best = Math.min(bidirectional.ms, astar.ms);
+    console.log(
+      [
+        `${start} -> ${end}`.padEnd(18),
+        lengths[0] || 'none',
+        legacy.ms.toFixed(2),
+        bidirectional.ms.toFixed(2),
+        astar.ms.toFixed(2),
+        `${(legacy.ms / best).toFixed(1)}x`,
+      ].join('\t')
+    );
+  }
+
+  console.log(
+    `\nTotal: legacy ${totals.legacy.toFixed(2)} ms, ` +
+      `bidirectional ${totals.bidirectional.toFixed(2)} ms, A* ${totals.astar.toFixed(2)} ms`
+  );
+}
+
+// Run if executed directly
+if (require.main === module) {
+  benchmarkPathFinding();
+}
+
+export { benchmarkPathFinding };
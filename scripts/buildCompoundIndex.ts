@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseBlocklist } from '../utils/wordBlocklist';
+import { DEFAULT_DICTIONARY } from '../utils/dictionaries';
+
+interface DictionaryData {
+  words: string[];
+  graph: Record<string, string[]>;
+  groups: Record<number, string[]>;
+}
+
+// [first, second, kind ('c' compound word, 'p' two-word phrase), rungs]
+type CompoundEntry = [string, string, 'c' | 'p', number];
+
+// Two-letter halves produce mostly accidental "compounds" (AB + ACK)
+const MIN_HALF_LENGTH = 3;
+const MAX_HALF_LENGTH = 10;
+
+/**
+ * Shortest-path step counts from one word to everything reachable
+ */
+function distancesFrom(start: string, graph: Record<string, string[]>): Map<string, number> {
+  const distances = new Map<string, number>([[start, 0]]);
+  const queue = [start];
+  for (let i = 0; i < queue.length; i++) {
+    const word = queue[i];
+    for (const neighbor of graph[word] || []) {
+      if (!distances.has(neighbor)) {
+        distances.set(neighbor, distances.get(word)! + 1);
+        queue.push(neighbor);
+      }
+    }
+  }
+  return distances;
+}
+
+/**
+ * Build `data/compounds.json`: edge-word pairs for the Crossclimb twist, where
+ * the top and bottom rows join into a compound word (BARE + FOOT) or a
+ * two-word phrase (ICE + CUBE, from an optional `phrases.txt`). Only pairs of
+ * equal-length dictionary words that a ladder can actually connect are kept,
+ * together with the number of rungs in their shortest ladder.
+ */
+async function buildCompoundIndex() {
+  const rootDir = path.join(__dirname, '..');
+  const dataDir = path.join(rootDir, 'data');
+  // Compound pairs come from the default dictionary only
+  const dictionaryDir = path.join(dataDir, DEFAULT_DICTIONARY);
+  const phrasesPath = process.env.PHRASES_PATH || path.join(rootDir, 'phrases.txt');
+  const blocklistPath = path.join(rootDir, 'blocklist.txt');
+
+  const blocklist = new Set(
+    fs.existsSync(blocklistPath) ? parseBlocklist(fs.readFileSync(blocklistPath, 'utf-8')) : []
+  );
+
+  console.log('Reading dictionary file...');
+  const allWords = fs
+    .readFileSync(path.join(rootDir, 'dictionary.txt'), 'utf-8')
+    .split('\n')
+    .slice(1) // Skip the Collins header line
+    .map((line) => line.trim().toUpperCase())
+    .filter((word) => /^[A-Z]+$/.test(word));
+
+  // Candidate pairs per half length, keyed so phrases don't duplicate compounds
+  const candidates = new Map<number, Map<string, CompoundEntry>>();
+  const addCandidate = (first: string, second: string, kind: 'c' | 'p') => {
+    if (first === second || blocklist.has(first) || blocklist.has(second)) return;
+    if (!candidates.has(first.length)) candidates.set(first.length, new Map());
+    const key = `${first} ${second}`;
+    if (!candidates.get(first.length)!.has(key)) {
+      candidates.get(first.length)!.set(key, [first, second, kind, 0]);
+    }
+  };
+
+  const dictionaries = new Map<number, DictionaryData>();
+  const loadLength = (length: number): DictionaryData | null => {
+    if (!dictionaries.has(length)) {
+      const filePath = path.join(dictionaryDir, `words-${length}.json`);
+      if (!fs.existsSync(filePath)) return null;
+      dictionaries.set(length, JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    }
+    return dictionaries.get(length)!;
+  };
+  const isWord = (word: string) => !!loadLength(word.length)?.graph[word];
+
+  for (const word of allWords) {
+    const half = word.length / 2;
+    if (!Number.isInteger(half) || half < MIN_HALF_LENGTH || half > MAX_HALF_LENGTH) continue;
+    if (blocklist.has(word)) continue;
+    const first = word.slice(0, half);
+    const second = word.slice(half);
+    if (isWord(first) && isWord(second)) {
+      addCandidate(first, second, 'c');
+    }
+  }
+
+  if (fs.existsSync(phrasesPath)) {
+    console.log(`Reading two-word phrases from ${phrasesPath}...`);
+    for (const line of fs.readFileSync(phrasesPath, 'utf-8').split('\n')) {
+      const parts = line.trim().toUpperCase().split(/[\s-]+/);
+      if (parts.length !== 2 || parts[0].length !== parts[1].length) continue;
+      if (parts[0].length < MIN_HALF_LENGTH || parts[0].length > MAX_HALF_LENGTH) continue;
+      if (isWord(parts[0]) && isWord(parts[1])) {
+        addCandidate(parts[0], parts[1], 'p');
+      }
+    }
+  } else {
+    console.log(`No phrase list at ${phrasesPath}; indexing compound words only`);
+  }
+
+  const index: Record<number, CompoundEntry[]> = {};
+  for (const [length, pairs] of Array.from(candidates).sort((a, b) => a[0] - b[0])) {
+    const graph = loadLength(length)!.graph;
+    const byFirst = new Map<string, CompoundEntry[]>();
+    for (const entry of Array.from(pairs.values())) {
+      byFirst.set(entry[0], [...(byFirst.get(entry[0]) || []), entry]);
+    }
+
+    // One BFS per distinct first word covers all of its pairs
+    const kept: CompoundEntry[] = [];
+    for (const [first, entries] of Array.from(byFirst)) {
+      const distances = distancesFrom(first, graph);
+      for (const entry of entries) {
+        const steps = distances.get(entry[1]);
+        // Words one letter apart leave no room for rungs
+        if (steps !== undefined && steps >= 2) {
+          entry[3] = steps - 1;
+          kept.push(entry);
+        }
+      }
+    }
+
+    kept.sort((a, b) => a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]));
+    index[length] = kept;
+    console.log(`  ${length}-letter halves: ${kept.length} connected pairs (of ${pairs.size})`);
+  }
+
+  const outputPath = path.join(dataDir, 'compounds.json');
+  fs.writeFileSync(outputPath, JSON.stringify(index), 'utf-8');
+  const fileSize = fs.statSync(outputPath).size;
+  console.log(`Saved to ${outputPath} (${(fileSize / 1024 / 1024).toFixed(2)} MB)`);
+}
+
+// Run if executed directly
+if (require.main === module) {
+  buildCompoundIndex().catch(console.error);
+}
+
+export { buildCompoundIndex };
@@ -1,6 +1,17 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { differByOne } from '../utils/wordLadder';
+import { parseBlocklist } from '../utils/wordBlocklist';
+import { encodeCompactDictionary } from '../utils/compactDictionary';
+import { DictionaryData as LoadedDictionary, readDictionaryFile, wordNeighbors } from '../utils/dictionaryData';
+import { findAllShortestPaths } from '../utils/ladderPaths';
+import { rankByCommonness, restrictNeighbors } from '../utils/wordCommonness';
+import { DICTIONARIES, DictionarySource, ENGLISH_FREQUENCY_FILE } from '../utils/dictionaries';
+import { getLanguage, isLanguageWord, normalizeWord } from '../utils/languages';
+import { buildWordGraph } from '../utils/wordGraph';
+
+// Ladders the word-ladder route gathers before ranking by commonness
+const RANKING_POOL = 200;
 
 interface WordNode {
   word: string;
@@ -11,31 +22,136 @@ interface DictionaryData {
   words: string[];
   graph: Record<string, string[]>; // word -> array of neighbor words
   groups: Record<number, string[]>; // groupId -> array of words in that group
+  commonness?: Record<string, number>; // word -> 1-100, omitted for words missing from the frequency list
+  blocked?: string[]; // words on the blocklist; left in the graph so connectivity is unchanged
+}
+
+interface VariantEdges {
+  anagrams: string[][]; // groups of N-letter words made of the same letters
+  longer: Record<string, string[]>; // N-letter word -> (N+1)-letter words with one letter added
 }
 
 /**
- * Preprocess the dictionary file into optimized JSON files by word length
+ * Read a word-frequency list into a 1-100 commonness score per dictionary word.
+ *
+ * Each line is a word, optionally followed by a count (separated by spaces,
+ * tabs or a comma). With counts the list is ordered by count; without them the
+ * line order is taken as the ranking. Scores fall off with the log of the rank,
+ * so the most frequent word scores 100 and the long tail approaches 1.
  */
-async function preprocessDictionary() {
-  const dictionaryPath = path.join(__dirname, '../dictionary.txt');
-  const outputDir = path.join(__dirname, '../data');
-  
+function loadCommonnessScores(
+  frequencyPath: string,
+  dictionaryWords: Set<string>,
+  source: DictionarySource
+): Map<string, number> {
+  const entries: { word: string; count: number; line: number }[] = [];
+  const seen = new Set<string>();
+
+  fs.readFileSync(frequencyPath, 'utf-8')
+    .split('\n')
+    .forEach((line, index) => {
+      const [rawWord, rawCount] = line.trim().split(/[\s,]+/);
+      const word = normalizeWord(rawWord || '', source.language);
+      if (!dictionaryWords.has(word) || seen.has(word)) return;
+      seen.add(word);
+      const count = Number(rawCount);
+      entries.push({ word, count: Number.isFinite(count) ? count : 0, line: index });
+    });
+
+  // Highest count first, ties (and count-less lists) in file order
+  entries.sort((a, b) => b.count - a.count || a.line - b.line);
+
+  const scores = new Map<string, number>();
+  const scale = Math.log(entries.length + 1);
+  entries.forEach(({ word }, rank) => {
+    scores.set(word, Math.max(1, Math.round(100 * (1 - Math.log(rank + 1) / scale))));
+  });
+  return scores;
+}
+
+/**
+ * Time a cold request: reading a dictionary file through the server's loader
+ * and answering one request with it, plus the heap this leaves behind (JS heap
+ * plus array buffers). Heap figures are only reliable when node runs with
+ * --expose-gc.
+ */
+function measureColdRequest(
+  filePath: string,
+  request: (dictionary: LoadedDictionary) => unknown
+): { ms: number; megabytes: number } {
+  const gc = (global as { gc?: () => void }).gc;
+  const used = () => {
+    gc?.();
+    const { heapUsed, arrayBuffers } = process.memoryUsage();
+    return heapUsed + arrayBuffers;
+  };
+
+  const before = used();
+  const started = performance.now();
+  const dictionary = readDictionaryFile(filePath);
+  const answer = request(dictionary);
+  const ms = performance.now() - started;
+  const megabytes = (used() - before) / 1024 / 1024;
+  // Keep the loaded data alive until after the second measurement
+  void [dictionary, answer];
+  return { ms, megabytes };
+}
+
+/**
+ * Where a dictionary's word-frequency list is, or null when it has none.
+ * `WORD_FREQUENCY_PATH` stands in for the shared English list.
+ */
+function frequencyPathFor(source: DictionarySource, rootDir: string): string | null {
+  if (!source.frequencyFile) return null;
+  if (source.frequencyFile === ENGLISH_FREQUENCY_FILE && process.env.WORD_FREQUENCY_PATH) {
+    return process.env.WORD_FREQUENCY_PATH;
+  }
+  return path.join(rootDir, source.frequencyFile);
+}
+
+/**
+ * Preprocess one word list into optimized files by word length in `outputDir`
+ */
+function preprocessWordList(
+  source: DictionarySource,
+  dictionaryPath: string,
+  outputDir: string,
+  blocklist: Set<string>,
+  frequencyPath: string | null
+) {
   // Create output directory if it doesn't exist
   if (!fs.existsSync(outputDir)) {
     fs.mkdirSync(outputDir, { recursive: true });
   }
 
-  console.log('Reading dictionary file...');
+  console.log(`Reading ${source.name} from ${source.file}...`);
   const fileContent = fs.readFileSync(dictionaryPath, 'utf-8');
   const lines = fileContent.split('\n');
   
-  // Skip header line and filter out empty lines
-  const words = lines
-    .slice(1) // Skip "Collins Scrabble Words (2019). 279,496 words. Words only."
-    .map(line => line.trim().toUpperCase())
-    .filter(word => word.length > 0 && /^[A-Z]+$/.test(word));
+  // Header lines such as "Collins Scrabble Words (2019). 279,496 words. Words only."
+  // fail the letters-only filter along with empty lines. Folding accents can
+  // turn two spellings into one word, so drop the repeats.
+  const words = Array.from(
+    new Set(
+      lines
+        .map(line => normalizeWord(line.trim(), source.language))
+        .filter(word => isLanguageWord(word, source.language))
+    )
+  );
 
-  console.log(`Found ${words.length} words`);
+  console.log(`Found ${words.length} ${getLanguage(source.language).name} words`);
+
+  // Optional: commonness scores let the ladder search avoid obscure words
+  let commonnessScores: Map<string, number> | null = null;
+  if (!frequencyPath) {
+    console.log(`${source.name} has no word-frequency list; skipping commonness scores`);
+  } else if (fs.existsSync(frequencyPath)) {
+    console.log(`Reading word frequencies from ${frequencyPath}...`);
+    commonnessScores = loadCommonnessScores(frequencyPath, new Set(words), source);
+    console.log(`Scored ${commonnessScores.size} dictionary words by commonness`);
+  } else {
+    console.log(`No word-frequency list at ${frequencyPath}; skipping commonness scores`);
+  }
 
   // Group words by length
   const wordsByLength: Record<number, string[]> = {};
@@ -57,50 +173,13 @@ async function preprocessDictionary() {
 
     console.log(`\nProcessing ${length}-letter words (${wordList.length} words)...`);
     
-    const graph: Record<string, string[]> = {};
-    
-    // Build graph using wildcard pattern matching (much faster!)
+    // Build graph using wildcard pattern matching (e.g. "_AT" -> [CAT, BAT, RAT, ...])
     console.log(`  Building word graph using pattern matching...`);
-    
-    // Step 1: Create pattern groups (e.g., "_AT" -> [CAT, BAT, RAT, ...])
-    const patternMap: Record<string, string[]> = {};
-    
-    for (const word of wordList) {
-      for (let i = 0; i < word.length; i++) {
-        const pattern = word.slice(0, i) + '_' + word.slice(i + 1);
-        if (!patternMap[pattern]) {
-          patternMap[pattern] = [];
-        }
-        patternMap[pattern].push(word);
-      }
-    }
-    
-    console.log(`  Created ${Object.keys(patternMap).length} patterns`);
-    
-    // Step 2: Build graph from pattern groups
-    let graphProgress = 0;
-    for (const word of wordList) {
-      if (graphProgress % 1000 === 0 && graphProgress > 0) {
-        process.stdout.write(`\r  Building graph: ${graphProgress}/${wordList.length}`);
-      }
-      graphProgress++;
-      
-      const neighborSet = new Set<string>();
-      
-      // For each position, get all words with the same pattern
-      for (let i = 0; i < word.length; i++) {
-        const pattern = word.slice(0, i) + '_' + word.slice(i + 1);
-        const wordsInPattern = patternMap[pattern] || [];
-        
-        for (const neighbor of wordsInPattern) {
-          if (neighbor !== word) {
-            neighborSet.add(neighbor);
-          }
-        }
+    const graph = buildWordGraph(wordList, (done) => {
+      if (done % 1000 === 0 && done > 0) {
+        process.stdout.write(`\r  Building graph: ${done}/${wordList.length}`);
       }
-      
-      graph[word] = Array.from(neighborSet);
-    }
+    });
     process.stdout.write(`\r  Building graph: ${wordList.length}/${wordList.length} - Done!\n`);
     
     console.log(`  Graph built with ${Object.keys(graph).length} nodes`);
@@ -146,12 +225,136 @@ async function preprocessDictionary() {
       groups,
     };
 
+    // Flag rather than remove blocklisted words so groups and paths stay intact
+    const blocked = wordList.filter((word) => blocklist.has(word));
+    if (blocked.length > 0) {
+      data.blocked = blocked;
+      console.log(`  Flagged ${blocked.length} blocklisted words`);
+    }
+
+    if (commonnessScores) {
+      const commonness: Record<string, number> = {};
+      for (const word of wordList) {
+        const score = commonnessScores.get(word);
+        if (score) commonness[word] = score;
+      }
+      data.commonness = commonness;
+      console.log(`  ${Object.keys(commonness).length} words have a commonness score`);
+    }
+
     // Save to JSON file
     const outputPath = path.join(outputDir, `words-${length}.json`);
     fs.writeFileSync(outputPath, JSON.stringify(data), 'utf-8');
     
     const fileSize = fs.statSync(outputPath).size;
     console.log(`  Saved to ${outputPath} (${(fileSize / 1024 / 1024).toFixed(2)} MB)`);
+
+    // Compact indexed copy the server loads instead of the JSON
+    const binaryPath = path.join(outputDir, `words-${length}.bin`);
+    fs.writeFileSync(binaryPath, encodeCompactDictionary(data));
+    const binarySize = fs.statSync(binaryPath).size;
+    console.log(`  Saved to ${binaryPath} (${(binarySize / 1024 / 1024).toFixed(2)} MB)`);
+
+    // What the neighbors and word-ladder routes do on their first request:
+    // suggest words next to one word, and search an everyday-words ladder
+    // across the largest group, ranked by commonness. Blocked words come from
+    // the maintained list plus the file's own flags, as in getBlockedWords.
+    const largest = Object.values(groups).reduce((a, b) => (b.length > a.length ? b : a), []);
+    const [from, to] = [largest[0], largest[largest.length - 1]];
+    const requests: [string, (dictionary: LoadedDictionary) => unknown][] = [
+      ['neighbor lookup', (dictionary) => wordNeighbors(dictionary, from)],
+      [
+        'ladder search',
+        (dictionary) => {
+          const blocked = new Set([...Array.from(blocklist), ...(dictionary.blocked || [])]);
+          const neighbors = restrictNeighbors(dictionary, 'everyday', [from, to], blocked);
+          return rankByCommonness(findAllShortestPaths(from, to, neighbors, RANKING_POOL), dictionary)[0];
+        },
+      ],
+    ];
+    for (const [name, request] of requests) {
+      const json = measureColdRequest(outputPath, request);
+      const compact = measureColdRequest(binaryPath, request);
+      console.log(
+        `  Cold ${name}: JSON ${json.ms.toFixed(1)} ms / ${json.megabytes.toFixed(2)} MB heap, ` +
+          `compact ${compact.ms.toFixed(1)} ms / ${compact.megabytes.toFixed(2)} MB heap`
+      );
+    }
+  }
+
+  // Extra edges for the variant ladder rules: anagrams within one length, and
+  // add/drop-a-letter steps between neighbouring lengths
+  console.log('\nBuilding variant ladder edges...');
+  for (const length of lengthsToProcess) {
+    const wordList = wordsByLength[length];
+    if (!wordList || wordList.length === 0) continue;
+
+    const byLetters = new Map<string, string[]>();
+    for (const word of wordList) {
+      const key = word.split('').sort().join('');
+      byLetters.set(key, [...(byLetters.get(key) || []), word]);
+    }
+    const anagrams = Array.from(byLetters.values()).filter((group) => group.length > 1);
+
+    const longer: Record<string, string[]> = {};
+    const shorterWords = new Set(wordList);
+    const longerWords = lengthsToProcess.includes(length + 1) ? wordsByLength[length + 1] || [] : [];
+    for (const word of longerWords) {
+      for (let i = 0; i < word.length; i++) {
+        const dropped = word.slice(0, i) + word.slice(i + 1);
+        if (shorterWords.has(dropped) && !(longer[dropped] ||= []).includes(word)) {
+          longer[dropped].push(word);
+        }
+      }
+    }
+
+    const variants: VariantEdges = { anagrams, longer };
+    const outputPath = path.join(outputDir, `variants-${length}.json`);
+    fs.writeFileSync(outputPath, JSON.stringify(variants), 'utf-8');
+    const fileSize = fs.statSync(outputPath).size;
+    console.log(
+      `  ${length}-letter words: ${anagrams.length} anagram groups, ` +
+        `${Object.keys(longer).length} words with a one-letter-longer neighbor ` +
+        `(${(fileSize / 1024 / 1024).toFixed(2)} MB)`
+    );
+  }
+}
+
+/**
+ * Preprocess every registered dictionary whose word list is present into
+ * `data/<id>/`. Pass a dictionary id to rebuild only that one.
+ */
+async function preprocessDictionary() {
+  const rootDir = path.join(__dirname, '..');
+  const blocklistPath = path.join(rootDir, 'blocklist.txt');
+  const only = process.argv[2];
+
+  if (only && !DICTIONARIES.some((source) => source.id === only)) {
+    throw new Error(`Unknown dictionary "${only}"; expected one of ${DICTIONARIES.map((d) => d.id).join(', ')}`);
+  }
+
+  const blocklist = new Set(
+    fs.existsSync(blocklistPath) ? parseBlocklist(fs.readFileSync(blocklistPath, 'utf-8')) : []
+  );
+  console.log(`Loaded ${blocklist.size} blocklisted words`);
+
+  for (const source of DICTIONARIES) {
+    if (only && source.id !== only) continue;
+
+    const dictionaryPath = path.join(rootDir, source.file);
+    if (!fs.existsSync(dictionaryPath)) {
+      console.log(`\nSkipping ${source.name}: no word list at ${source.file}`);
+      continue;
+    }
+
+    console.log(`\n=== ${source.name} (${source.id}) ===`);
+    preprocessWordList(
+      source,
+      dictionaryPath,
+      path.join(rootDir, 'data', source.id),
+      blocklist,
+      frequencyPathFor(source, rootDir)
+    );
   }
 
   console.log('\n✅ Dictionary preprocessing complete!');
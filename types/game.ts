@@ -5,6 +5,190 @@ export interface GameInfo {
   words: Array<{ correct: string; hint: string }>;
   edgeWords: [string, string];
   edgeHint: string;
+  /** Reachable by link but left out of the public puzzle listing */
+  unlisted?: boolean;
+  /** Which steps the ladder may take; 'classic' when omitted */
+  rules?: LadderRules;
+  /** Word list the ladder was built from (see utils/dictionaries.ts); the language's default when omitted */
+  dictionary?: string;
+  /** Spelling rules for the words (see utils/languages.ts); English when omitted */
+  language?: LanguageId;
+}
+
+/** Languages puzzles can be written in */
+export type LanguageId = 'en' | 'es' | 'de' | 'fr';
+
+/**
+ * Ladder step rules: 'classic' changes one letter, 'add-drop' also adds or
+ * removes one (so word lengths vary), 'anagram' also rearranges all letters
+ */
+export type LadderRules = 'classic' | 'add-drop' | 'anagram';
+
+/** Snapshot of a puzzle's content each time it is published or edited */
+export interface PuzzleRevision {
+  /** 1-based, increasing with every edit */
+  revision: number;
+  gameInfo: GameInfo;
+  createdAt: string;
+  editor?: string;
+}
+
+/** Aggregate solve times, overall and per revision */
+export interface SolveStats {
+  solves: number;
+  totalSeconds: number;
+  byRevision: Record<number, { solves: number; totalSeconds: number }>;
+}
+
+/** Game configuration as persisted by the puzzle API (top-level fields are the latest revision) */
+export interface StoredPuzzle extends GameInfo {
+  createdAt: string;
+  updatedAt?: string;
+  /** sha256 of the owner's edit token; never sent to clients */
+  editTokenHash?: string;
+  /** Append-only history; missing on puzzles stored before revisions existed */
+  revisions?: PuzzleRevision[];
+  solveStats?: SolveStats;
+  /** Estimated from the latest revision, refreshed on every edit and solve */
+  difficulty?: PuzzleDifficulty;
+}
+
+/** Difficulty label shown to players; not to be confused with LadderDifficulty, which limits generated words */
+export type DifficultyLevel = 'easy' | 'medium' | 'hard';
+
+/** What the difficulty estimate looks at, each scored from 0 (easy) to 1 (hard) */
+export type DifficultyFactor = 'commonness' | 'rungs' | 'wordLength' | 'ambiguity' | 'clues' | 'solveTime';
+
+/** Automatic difficulty rating for a puzzle */
+export interface PuzzleDifficulty {
+  level: DifficultyLevel;
+  /** 0 (easiest) to 100 */
+  score: number;
+  /** Factors that could be measured; commonness needs dictionary scores and solveTime needs solves */
+  factors: Partial<Record<DifficultyFactor, number>>;
+  /** Solves of the latest revision blended into the score */
+  solves: number;
+}
+
+/** Stored puzzle as returned by GET /api/puzzle */
+export type PublicPuzzle = Omit<StoredPuzzle, 'editTokenHash' | 'revisions' | 'solveStats'> & {
+  revision: number;
+  revisionCount: number;
+};
+
+/** One row of the puzzle listing served by GET /api/puzzle */
+export interface PuzzleSummary {
+  id: string;
+  title: string;
+  author?: string;
+  wordLength: number;
+  rungs: number;
+  createdAt: string;
+  plays: number;
+  averageSeconds: number | null;
+  difficulty: DifficultyLevel;
+}
+
+export type PuzzleSort = 'newest' | 'most-played' | 'fastest';
+
+/** Puzzle of the day: calendar date (YYYY-MM-DD) to puzzle id */
+export type DailySchedule = Record<string, string>;
+
+/** A scheduled day as returned by the daily and archive APIs */
+export interface DailyEntry {
+  date: string;
+  id: string;
+  title: string;
+}
+
+/** Metadata for one entry of a puzzle's revision list */
+export type PuzzleRevisionSummary = Omit<PuzzleRevision, 'gameInfo'>;
+
+/** One changed field between two revisions */
+export interface PuzzleChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+/** Validation problem tied to a GameInfo field path, e.g. `words.2.hint` */
+export interface PuzzleFieldError {
+  field: string;
+  message: string;
+}
+
+/** One ladder proposed by /api/word-ladder, annotated for the ladder picker */
+export interface LadderCandidate {
+  path: string[];
+  /** Number of words, including both edge words */
+  length: number;
+  /** Letter position that changes at each step (path.length - 1 entries) */
+  changedPositions: number[];
+  /** Middle words that appear in no other returned candidate */
+  distinctWords: string[];
+  /** Commonness (1-100, 0 if unlisted) of the rarest middle word, when the dictionary has scores */
+  commonness?: number;
+  rarestWord?: string;
+}
+
+/** A dictionary word one letter change away, from /api/word-ladder/neighbors */
+export interface WordNeighbor {
+  word: string;
+  /** Letter position that differs from the word looked up */
+  position: number;
+  /** 1-100, 0 if unlisted, when the dictionary has scores */
+  commonness?: number;
+}
+
+/** Edge words that join into a compound word (BARE + FOOT) or two-word phrase */
+export interface CompoundPair {
+  first: string;
+  second: string;
+  kind: 'compound' | 'phrase';
+  /** Middle words in the shortest ladder between the two halves */
+  rungs: number;
+}
+
+/** Dictionary words other than the author's answer that also fit one rung */
+export interface RungAlternatives {
+  /** Index into GameInfo.words */
+  index: number;
+  word: string;
+  /** Most common alternatives first, cut to a short list */
+  alternatives: string[];
+  /** Alternatives found before the list was cut */
+  total: number;
+}
+
+/** Another order of the middle words that players can sort the rows into */
+export interface PuzzleOrdering {
+  words: string[];
+  /** Whether the edge words still join both ends, so the puzzle can be solved this way */
+  fitsEdges: boolean;
+}
+
+/** Ambiguity report for a puzzle, from POST /api/puzzle/analyze */
+export interface PuzzleAnalysis {
+  /** Only rungs that have alternatives */
+  rungs: RungAlternatives[];
+  /** Orders other than the author's (or its reverse) */
+  orderings: PuzzleOrdering[];
+  /** The ordering search stopped early, so more orderings may exist */
+  orderingsCapped: boolean;
+}
+
+/** How obscure the generated middle words may be */
+export type LadderDifficulty = 'everyday' | 'moderate' | 'obscure';
+
+/** Restrictions on the ladders /api/word-ladder may propose */
+export interface LadderConstraints {
+  /** Middle words, i.e. rungs between the two edge words */
+  minRungs?: number;
+  maxRungs?: number;
+  /** Words the ladder must pass through, top to bottom */
+  via?: string[];
+  /** Words the ladder must not use */
+  avoid?: string[];
 }
 
 /** Current game state with user input */
@@ -15,11 +199,13 @@ export interface Game {
   edgeWords: [string, string];
   currentEdgeWords: [string, string];
   edgeHint: string;
+  rules?: LadderRules;
+  language?: LanguageId;
   startTime?: number;
   endTime?: number;
 }
 
 export type GameStatus = 'idle' | 'error' | 'unsorted' | 'sorted' | 'solved';
 
-export type GameMode = 'auto' | 'manual' | 'playing';
+export type GameMode = 'auto' | 'manual' | 'playing' | 'published';
 
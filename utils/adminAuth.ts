@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { hashEditToken, verifyEditToken } from './editTokens';
+
+export const ADMIN_TOKEN_HEADER = 'x-admin-token';
+
+/**
+ * Admin APIs are enabled by setting ADMIN_TOKEN; requests must send it in
+ * the X-Admin-Token header. Without ADMIN_TOKEN every request is refused.
+ */
+export function isAdminRequest(request: Request): boolean {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) return false;
+  return verifyEditToken(request.headers.get(ADMIN_TOKEN_HEADER), hashEditToken(adminToken));
+}
+
+/**
+ * Response for admin routes when isAdminRequest fails
+ */
+export function adminForbidden(): NextResponse {
+  return NextResponse.json(
+    { error: 'Admin token required' },
+    { status: 403 }
+  );
+}
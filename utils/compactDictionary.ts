@@ -0,0 +1,242 @@
+/**
+ * Compact binary form of a preprocessed dictionary (`data/<dictionary>/words-N.bin`).
+ *
+ * Layout, little-endian, every section starting on a 4-byte boundary:
+ *
+ *   header       8 x u32: magic "CCWD", version, word length, word count,
+ *                edge count, component count, section flags, reserved
+ *   word table   word count x word length characters, sorted; one byte each,
+ *                or a u16 UTF-16 code unit each when flagged wide
+ *   offsets      (word count + 1) x u32; neighbors of word i are
+ *                neighbors[offsets[i] .. offsets[i + 1]]
+ *   neighbors    edge count x u32 word indexes
+ *   components   word count x u32 connectivity component id
+ *   commonness   word count x u8, 0 when unscored     (if flagged)
+ *   blocked      word count x u8, 1 when blocklisted  (if flagged)
+ *
+ * Non-English dictionaries (Ñ, Ä, ẞ, ...) set the wide flag; English ones
+ * keep the one-byte table.
+ *
+ * Decoding only creates typed-array views over the file's bytes, so loading
+ * costs one read and no parsing; words are found by binary search instead of
+ * a lookup table.
+ */
+
+const MAGIC = 0x44574343; // "CCWD" read as a little-endian u32
+const VERSION = 1;
+const HEADER_BYTES = 32;
+
+const HAS_COMMONNESS = 1;
+const HAS_BLOCKED = 2;
+const WIDE_CHARS = 4;
+
+export interface CompactDictionary {
+  wordLength: number;
+  wordCount: number;
+  componentCount: number;
+  wordTable: Uint8Array | Uint16Array;
+  offsets: Uint32Array;
+  neighbors: Uint32Array;
+  components: Uint32Array;
+  commonness: Uint8Array | null;
+  blocked: Uint8Array | null;
+}
+
+/** What the preprocess script has in hand when it writes a dictionary */
+export interface CompactDictionarySource {
+  words: string[];
+  graph: Record<string, string[]>;
+  groups: Record<number, string[]>;
+  commonness?: Record<string, number>;
+  blocked?: string[];
+}
+
+function align(bytes: number): number {
+  return (bytes + 3) & ~3;
+}
+
+/**
+ * Serialize a dictionary into the compact format
+ */
+export function encodeCompactDictionary(source: CompactDictionarySource): Buffer {
+  const words = [...source.words].sort();
+  const wordLength = words[0]?.length || 0;
+  const index = new Map(words.map((word, i) => [word, i]));
+
+  const component = new Uint32Array(words.length);
+  const groupIds = Object.keys(source.groups);
+  groupIds.forEach((groupId, id) => {
+    for (const word of source.groups[Number(groupId)]) {
+      component[index.get(word)!] = id;
+    }
+  });
+
+  const offsets = new Uint32Array(words.length + 1);
+  words.forEach((word, i) => {
+    offsets[i + 1] = offsets[i] + (source.graph[word] || []).length;
+  });
+  const edgeCount = offsets[words.length];
+
+  const wide = words.some((word) => /[^\x00-\xff]/.test(word));
+  const flags =
+    (source.commonness ? HAS_COMMONNESS : 0) | (source.blocked?.length ? HAS_BLOCKED : 0) | (wide ? WIDE_CHARS : 0);
+  const charBytes = wide ? 2 : 1;
+  const tableBytes = align(words.length * wordLength * charBytes);
+  const byteBytes = align(words.length);
+  const totalBytes =
+    HEADER_BYTES +
+    tableBytes +
+    4 * (words.length + 1) +
+    4 * edgeCount +
+    4 * words.length +
+    (flags & HAS_COMMONNESS ? byteBytes : 0) +
+    (flags & HAS_BLOCKED ? byteBytes : 0);
+
+  const buffer = new ArrayBuffer(totalBytes);
+  new Uint32Array(buffer, 0, 8).set([
+    MAGIC,
+    VERSION,
+    wordLength,
+    words.length,
+    edgeCount,
+    groupIds.length,
+    flags,
+    0,
+  ]);
+
+  let offset = HEADER_BYTES;
+  const table = wide
+    ? new Uint16Array(buffer, offset, words.length * wordLength)
+    : new Uint8Array(buffer, offset, words.length * wordLength);
+  words.forEach((word, i) => {
+    for (let j = 0; j < wordLength; j++) {
+      table[i * wordLength + j] = word.charCodeAt(j);
+    }
+  });
+  offset += tableBytes;
+
+  new Uint32Array(buffer, offset, words.length + 1).set(offsets);
+  offset += 4 * (words.length + 1);
+
+  const neighbors = new Uint32Array(buffer, offset, edgeCount);
+  words.forEach((word, i) => {
+    neighbors.set(
+      (source.graph[word] || []).map((neighbor) => index.get(neighbor)!).sort((a, b) => a - b),
+      offsets[i]
+    );
+  });
+  offset += 4 * edgeCount;
+
+  new Uint32Array(buffer, offset, words.length).set(component);
+  offset += 4 * words.length;
+
+  if (flags & HAS_COMMONNESS) {
+    const commonness = new Uint8Array(buffer, offset, words.length);
+    words.forEach((word, i) => {
+      commonness[i] = source.commonness![word] || 0;
+    });
+    offset += byteBytes;
+  }
+
+  if (flags & HAS_BLOCKED) {
+    const blocked = new Uint8Array(buffer, offset, words.length);
+    for (const word of source.blocked!) {
+      const i = index.get(word);
+      if (i !== undefined) blocked[i] = 1;
+    }
+  }
+
+  return Buffer.from(buffer);
+}
+
+/**
+ * View a compact dictionary file's bytes as typed arrays, without copying
+ */
+export function decodeCompactDictionary(bytes: Uint8Array): CompactDictionary {
+  // Typed-array views need 4-byte alignment; pooled buffers may not have it
+  const aligned = bytes.byteOffset % 4 === 0 ? bytes : new Uint8Array(bytes);
+  const { buffer, byteOffset } = aligned;
+
+  if (aligned.byteLength < HEADER_BYTES) {
+    throw new Error('Compact dictionary is truncated');
+  }
+  const header = new Uint32Array(buffer, byteOffset, 8);
+  const [magic, version, wordLength, wordCount, edgeCount, componentCount, flags] = Array.from(header);
+  if (magic !== MAGIC) {
+    throw new Error('Not a compact dictionary file');
+  }
+  if (version !== VERSION) {
+    throw new Error(`Unsupported compact dictionary version ${version}`);
+  }
+
+  let offset = byteOffset + HEADER_BYTES;
+  const take = <T>(make: (at: number) => T, bytes: number): T => {
+    if (offset - byteOffset + bytes > aligned.byteLength) {
+      throw new Error('Compact dictionary is truncated');
+    }
+    const view = make(offset);
+    offset += align(bytes);
+    return view;
+  };
+
+  const tableLength = wordCount * wordLength;
+  const wordTable =
+    flags & WIDE_CHARS
+      ? take((at) => new Uint16Array(buffer, at, tableLength), 2 * tableLength)
+      : take((at) => new Uint8Array(buffer, at, tableLength), tableLength);
+  const offsets = take((at) => new Uint32Array(buffer, at, wordCount + 1), 4 * (wordCount + 1));
+  const neighbors = take((at) => new Uint32Array(buffer, at, edgeCount), 4 * edgeCount);
+  const components = take((at) => new Uint32Array(buffer, at, wordCount), 4 * wordCount);
+  const commonness = flags & HAS_COMMONNESS ? take((at) => new Uint8Array(buffer, at, wordCount), wordCount) : null;
+  const blocked = flags & HAS_BLOCKED ? take((at) => new Uint8Array(buffer, at, wordCount), wordCount) : null;
+
+  return {
+    wordLength,
+    wordCount,
+    componentCount,
+    wordTable,
+    offsets,
+    neighbors,
+    components,
+    commonness,
+    blocked,
+  };
+}
+
+/**
+ * The word at an index in the word table
+ */
+export function compactWordAt(dictionary: CompactDictionary, index: number): string {
+  const start = index * dictionary.wordLength;
+  return String.fromCharCode(...Array.from(dictionary.wordTable.subarray(start, start + dictionary.wordLength)));
+}
+
+/**
+ * Index of an upper-case word in the word table, or -1 when it isn't there
+ */
+export function compactIndexOf(dictionary: CompactDictionary, word: string): number {
+  const { wordTable, wordLength } = dictionary;
+  if (word.length !== wordLength) return -1;
+
+  let low = 0;
+  let high = dictionary.wordCount - 1;
+  while (low <= high) {
+    const middle = (low + high) >>> 1;
+    const base = middle * wordLength;
+    let order = 0;
+    for (let j = 0; j < wordLength && order === 0; j++) {
+      order = wordTable[base + j] - word.charCodeAt(j);
+    }
+    if (order === 0) return middle;
+    if (order < 0) low = middle + 1;
+    else high = middle - 1;
+  }
+  return -1;
+}
+
+/**
+ * Word indexes adjacent to the word at `index`
+ */
+export function compactNeighbors(dictionary: CompactDictionary, index: number): Uint32Array {
+  return dictionary.neighbors.subarray(dictionary.offsets[index], dictionary.offsets[index + 1]);
+}
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CompoundPair } from '@/types/game';
+
+// As written by scripts/buildCompoundIndex.ts: [first, second, kind, rungs]
+type CompoundEntry = [string, string, 'c' | 'p', number];
+
+export interface CompoundSearch {
+  wordLength?: number;
+  /** Only pairs where one half is this word */
+  contains?: string;
+  minRungs?: number;
+  maxRungs?: number;
+  kind?: CompoundPair['kind'];
+  /** Skip pairs using any of these words */
+  blocked?: Set<string>;
+  offset?: number;
+  limit: number;
+}
+
+// Loaded once per process
+let compoundIndex: Map<number, CompoundPair[]> | null = null;
+
+/**
+ * Load `data/compounds.json`, grouped by half length (empty if not built yet)
+ */
+export function loadCompoundIndex(): Map<number, CompoundPair[]> {
+  if (!compoundIndex) {
+    compoundIndex = new Map();
+    const filePath = path.join(process.cwd(), 'data', 'compounds.json');
+    try {
+      if (fs.existsSync(filePath)) {
+        const data: Record<string, CompoundEntry[]> = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        for (const [length, entries] of Object.entries(data)) {
+          compoundIndex.set(
+            Number(length),
+            entries.map(([first, second, kind, rungs]) => ({
+              first,
+              second,
+              kind: kind === 'p' ? 'phrase' : 'compound',
+              rungs,
+            }))
+          );
+        }
+      }
+    } catch (error) {
+      console.error('Error loading compound index:', error);
+    }
+  }
+  return compoundIndex;
+}
+
+/**
+ * The indexed pair for two edge words, in either order
+ */
+export function findCompoundPair(a: string, b: string): CompoundPair | null {
+  const pairs = loadCompoundIndex().get(a.length) || [];
+  const [x, y] = [a.toUpperCase(), b.toUpperCase()];
+  return pairs.find((p) => (p.first === x && p.second === y) || (p.first === y && p.second === x)) || null;
+}
+
+/**
+ * Filter the index; results keep its alphabetical order
+ */
+export function searchCompoundPairs(search: CompoundSearch): { pairs: CompoundPair[]; total: number } {
+  const index = loadCompoundIndex();
+  const lengths = search.wordLength ? [search.wordLength] : Array.from(index.keys()).sort((a, b) => a - b);
+  const contains = search.contains?.toUpperCase();
+
+  const matches = lengths.flatMap((length) =>
+    (index.get(length) || []).filter(
+      (pair) =>
+        (!contains || pair.first === contains || pair.second === contains) &&
+        (search.minRungs === undefined || pair.rungs >= search.minRungs) &&
+        (search.maxRungs === undefined || pair.rungs <= search.maxRungs) &&
+        (!search.kind || pair.kind === search.kind) &&
+        !search.blocked?.has(pair.first) &&
+        !search.blocked?.has(pair.second)
+    )
+  );
+
+  const offset = search.offset || 0;
+  return { pairs: matches.slice(offset, offset + search.limit), total: matches.length };
+}
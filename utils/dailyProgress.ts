@@ -0,0 +1,32 @@
+const DAILY_PROGRESS_KEY = 'crossclimb-daily-progress';
+
+/** A daily puzzle this browser has completed */
+export interface DailyResult {
+  date: string;
+  id: string;
+  timeSeconds: number;
+  completedAt: string;
+}
+
+/**
+ * Completed daily puzzles by date
+ */
+export function getDailyResults(): Record<string, DailyResult> {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(DAILY_PROGRESS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Record the first completion of a day's puzzle; replays keep the original time
+ */
+export function saveDailyResult(date: string, id: string, timeSeconds: number): void {
+  if (typeof window === 'undefined') return;
+  const results = getDailyResults();
+  if (results[date]?.id === id) return;
+  results[date] = { date, id, timeSeconds, completedAt: new Date().toISOString() };
+  localStorage.setItem(DAILY_PROGRESS_KEY, JSON.stringify(results));
+}
@@ -0,0 +1,67 @@
+import { DailyEntry, DailySchedule } from '@/types/game';
+import { getPuzzleStorage } from './puzzleStorage';
+import { dateInTimeZone, isValidTimeZone } from './dailyDates';
+
+const SCHEDULE_DOCUMENT = 'daily-schedule';
+
+/**
+ * Timezone used when a request doesn't name one, and for deciding which
+ * dates admins may still change (DAILY_TIMEZONE, default UTC)
+ */
+export function defaultTimeZone(): string {
+  const configured = process.env.DAILY_TIMEZONE;
+  return isValidTimeZone(configured) ? configured : 'UTC';
+}
+
+/**
+ * Today's date for a player, in their timezone when it is a valid one
+ */
+export function todayIn(timeZone: string | null | undefined): string {
+  return dateInTimeZone(new Date(), isValidTimeZone(timeZone) ? timeZone : defaultTimeZone());
+}
+
+export async function getDailySchedule(): Promise<DailySchedule> {
+  return (await getPuzzleStorage().getDocument<DailySchedule>(SCHEDULE_DOCUMENT)) || {};
+}
+
+/**
+ * Put a puzzle on a date, replacing whatever was queued there
+ */
+export async function scheduleDailyPuzzle(date: string, id: string): Promise<void> {
+  await getPuzzleStorage().updateDocument<DailySchedule>(SCHEDULE_DOCUMENT, (schedule) => ({
+    ...schedule,
+    [date]: id,
+  }));
+}
+
+/**
+ * Clear a date; returns false if nothing was scheduled
+ */
+export async function unscheduleDailyPuzzle(date: string): Promise<boolean> {
+  let removed = false;
+  await getPuzzleStorage().updateDocument<DailySchedule>(SCHEDULE_DOCUMENT, (schedule) => {
+    const updated = { ...schedule };
+    removed = date in updated;
+    delete updated[date];
+    return updated;
+  });
+  return removed;
+}
+
+/**
+ * Scheduled days in date order, with titles; days whose puzzle has since
+ * been deleted are left out
+ */
+export async function listDailyEntries(filter: (date: string) => boolean = () => true): Promise<DailyEntry[]> {
+  const schedule = await getDailySchedule();
+  const storage = getPuzzleStorage();
+  const entries: DailyEntry[] = [];
+
+  for (const date of Object.keys(schedule).filter(filter).sort()) {
+    const puzzle = await storage.get(schedule[date]);
+    if (puzzle) {
+      entries.push({ date, id: schedule[date], title: puzzle.title });
+    }
+  }
+  return entries;
+}
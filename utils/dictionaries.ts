@@ -0,0 +1,122 @@
+import { GameInfo, LanguageId } from '@/types/game';
+import { DEFAULT_LANGUAGE } from './languages';
+
+/**
+ * Word lists the preprocess script can build. Each one is preprocessed into
+ * `data/<id>/`; a dictionary whose word list is missing is simply skipped, so
+ * only `collins` is available out of the box.
+ */
+export interface DictionarySource {
+  id: string;
+  name: string;
+  description: string;
+  /** Language whose spelling rules apply to the list's words */
+  language: LanguageId;
+  /** Word list relative to the repository root, one word per line */
+  file: string;
+  /**
+   * Word-frequency list in the same language, relative to the repository root.
+   * Without one the dictionary's words get no commonness scores.
+   */
+  frequencyFile?: string;
+}
+
+/** Shared by the English dictionaries; `WORD_FREQUENCY_PATH` can point it elsewhere */
+export const ENGLISH_FREQUENCY_FILE = 'word-frequency.txt';
+
+/** What clients are told about a dictionary the server has data for */
+export interface DictionaryInfo extends Pick<DictionarySource, 'id' | 'name' | 'description' | 'language'> {
+  /** Whether words have commonness scores, which the "Everyday words" setting needs */
+  commonness: boolean;
+}
+
+export const DICTIONARIES: DictionarySource[] = [
+  {
+    id: 'collins',
+    name: 'Collins Scrabble Words',
+    description: 'International Scrabble list (2019)',
+    language: 'en',
+    file: 'dictionary.txt',
+    frequencyFile: ENGLISH_FREQUENCY_FILE,
+  },
+  {
+    id: 'twl',
+    name: 'Tournament Word List',
+    description: 'North American Scrabble list',
+    language: 'en',
+    file: 'dictionaries/twl.txt',
+    frequencyFile: ENGLISH_FREQUENCY_FILE,
+  },
+  {
+    id: 'school',
+    name: 'School words',
+    description: "Restricted list for the kids' edition",
+    language: 'en',
+    file: 'dictionaries/school.txt',
+    frequencyFile: ENGLISH_FREQUENCY_FILE,
+  },
+  {
+    id: 'spanish',
+    name: 'Spanish words',
+    description: 'General Spanish word list',
+    language: 'es',
+    file: 'dictionaries/spanish.txt',
+  },
+  {
+    id: 'german',
+    name: 'German words',
+    description: 'General German word list',
+    language: 'de',
+    file: 'dictionaries/german.txt',
+  },
+  {
+    id: 'french',
+    name: 'French words',
+    description: 'General French word list',
+    language: 'fr',
+    file: 'dictionaries/french.txt',
+  },
+];
+
+/** Used whenever an English puzzle or request names no dictionary */
+export const DEFAULT_DICTIONARY = 'collins';
+
+/**
+ * Whether a value names a registered dictionary
+ */
+export function isDictionaryId(value: unknown): value is string {
+  return typeof value === 'string' && DICTIONARIES.some((dictionary) => dictionary.id === value);
+}
+
+/**
+ * Whether `npm run compounds` indexes a dictionary's compound words. The
+ * index is only built from the default dictionary.
+ */
+export function hasCompoundIndex(id: string): boolean {
+  return id === DEFAULT_DICTIONARY;
+}
+
+export function getDictionary(id: string): DictionarySource | undefined {
+  return DICTIONARIES.find((dictionary) => dictionary.id === id);
+}
+
+/**
+ * Language of a registered dictionary's words
+ */
+export function dictionaryLanguage(id: string): LanguageId {
+  return getDictionary(id)?.language || DEFAULT_LANGUAGE;
+}
+
+/**
+ * The first registered dictionary for a language
+ */
+export function defaultDictionary(language: LanguageId = DEFAULT_LANGUAGE): string {
+  return DICTIONARIES.find((dictionary) => dictionary.language === language)?.id || DEFAULT_DICTIONARY;
+}
+
+/**
+ * The dictionary a puzzle's words come from
+ */
+export function puzzleDictionary(gameInfo: Pick<GameInfo, 'dictionary' | 'language'>): string {
+  return gameInfo.dictionary || defaultDictionary(gameInfo.language);
+}
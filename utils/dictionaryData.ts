@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CompactDictionary,
+  compactIndexOf,
+  compactNeighbors,
+  compactWordAt,
+  decodeCompactDictionary,
+} from './compactDictionary';
+import { DEFAULT_DICTIONARY, isDictionaryId } from './dictionaries';
+
+export interface DictionaryData {
+  words: string[];
+  graph: Record<string, string[]>; // word -> array of neighbor words
+  groups: Record<number, string[]>; // groupId -> array of words in that group
+  commonness?: Record<string, number>; // word -> 1-100 when preprocessed with a frequency list
+  blocked?: string[]; // words on the blocklist; kept in the graph but never offered
+  compact?: CompactDictionary; // indexed form, present when loaded from words-N.bin
+}
+
+// Cache loaded dictionaries in memory, keyed by "<dictionary id>:<word length>"
+const dictionaryCache: Map<string, DictionaryData> = new Map();
+
+// Word -> group id for dictionaries loaded from JSON, built on first connectivity check
+const groupIndexCache: WeakMap<DictionaryData, Map<string, number>> = new WeakMap();
+
+/**
+ * Wrap a compact dictionary so the word list, graph and groups are only
+ * decoded into objects when something actually reads them
+ */
+function fromCompact(compact: CompactDictionary): DictionaryData {
+  const lazy = <T>(build: () => T): PropertyDescriptor => {
+    let value: T | undefined;
+    return { enumerable: true, get: () => (value === undefined ? (value = build()) : value) };
+  };
+  const data = { compact } as DictionaryData;
+
+  Object.defineProperties(data, {
+    words: lazy(() => Array.from({ length: compact.wordCount }, (_, i) => compactWordAt(compact, i))),
+    graph: lazy(() => {
+      const graph: Record<string, string[]> = {};
+      data.words.forEach((word, i) => {
+        graph[word] = Array.from(compactNeighbors(compact, i), (neighbor) => data.words[neighbor]);
+      });
+      return graph;
+    }),
+    groups: lazy(() => {
+      const groups: Record<number, string[]> = {};
+      data.words.forEach((word, i) => {
+        (groups[compact.components[i]] ||= []).push(word);
+      });
+      return groups;
+    }),
+  });
+
+  if (compact.commonness) {
+    const scores = compact.commonness;
+    Object.defineProperty(data, 'commonness', lazy(() => {
+      const commonness: Record<string, number> = {};
+      data.words.forEach((word, i) => {
+        if (scores[i]) commonness[word] = scores[i];
+      });
+      return commonness;
+    }));
+  }
+  if (compact.blocked) {
+    const flags = compact.blocked;
+    // Only the flagged words are decoded, not the whole word list
+    Object.defineProperty(data, 'blocked', lazy(() => {
+      const blocked: string[] = [];
+      flags.forEach((flag, i) => {
+        if (flag) blocked.push(compactWordAt(compact, i));
+      });
+      return blocked;
+    }));
+  }
+
+  return data;
+}
+
+/**
+ * Read one preprocessed `words-N.bin` or `words-N.json` file, bypassing the cache
+ */
+export function readDictionaryFile(filePath: string): DictionaryData {
+  if (filePath.endsWith('.bin')) {
+    return fromCompact(decodeCompactDictionary(fs.readFileSync(filePath)));
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Load one named dictionary's words of a specific length, preferring the
+ * compact `data/<id>/words-N.bin` file and falling back to `words-N.json`
+ */
+export function loadDictionary(wordLength: number, dictionaryId: string = DEFAULT_DICTIONARY): DictionaryData | null {
+  // Only registered ids, which also keeps request input out of the file path
+  if (!isDictionaryId(dictionaryId)) return null;
+
+  // Check cache first
+  const cacheKey = `${dictionaryId}:${wordLength}`;
+  if (dictionaryCache.has(cacheKey)) {
+    return dictionaryCache.get(cacheKey)!;
+  }
+
+  const dataDir = path.join(process.cwd(), 'data', dictionaryId);
+
+  try {
+    const binaryPath = path.join(dataDir, `words-${wordLength}.bin`);
+    if (fs.existsSync(binaryPath)) {
+      const data = readDictionaryFile(binaryPath);
+      dictionaryCache.set(cacheKey, data);
+      return data;
+    }
+  } catch (error) {
+    console.error(`Error loading compact ${dictionaryId} dictionary for length ${wordLength}:`, error);
+  }
+
+  try {
+    const filePath = path.join(dataDir, `words-${wordLength}.json`);
+    
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    const data = readDictionaryFile(filePath);
+    
+    // Cache it
+    dictionaryCache.set(cacheKey, data);
+    
+    return data;
+  } catch (error) {
+    console.error(`Error loading ${dictionaryId} dictionary for length ${wordLength}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Word lengths the preprocess script has built for a dictionary, shortest first
+ */
+export function installedWordLengths(dictionaryId: string): number[] {
+  if (!isDictionaryId(dictionaryId)) return [];
+  try {
+    const lengths = fs
+      .readdirSync(path.join(process.cwd(), 'data', dictionaryId))
+      .map((file) => Number(file.match(/^words-(\d+)\.(bin|json)$/)?.[1]))
+      .filter((length) => length > 0);
+    return Array.from(new Set(lengths)).sort((a, b) => a - b);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether the preprocess script has built any word length of a dictionary
+ */
+export function isDictionaryInstalled(dictionaryId: string): boolean {
+  return installedWordLengths(dictionaryId).length > 0;
+}
+
+/**
+ * Whether an upper-case word is in this dictionary
+ */
+export function hasWord(dictionary: DictionaryData, word: string): boolean {
+  if (dictionary.compact) {
+    return compactIndexOf(dictionary.compact, word) >= 0;
+  }
+  return Object.prototype.hasOwnProperty.call(dictionary.graph, word);
+}
+
+/**
+ * Words one letter change away from an upper-case word, without decoding the
+ * whole graph of a compact dictionary
+ */
+export function wordNeighbors(dictionary: DictionaryData, word: string): string[] {
+  if (dictionary.compact) {
+    const { compact } = dictionary;
+    const index = compactIndexOf(compact, word);
+    return index < 0 ? [] : Array.from(compactNeighbors(compact, index), (neighbor) => compactWordAt(compact, neighbor));
+  }
+  return dictionary.graph[word] || [];
+}
+
+/**
+ * An upper-case word's 1-100 commonness score, 0 when it has none, without
+ * decoding a compact dictionary's whole score table
+ */
+export function commonnessScore(dictionary: DictionaryData, word: string): number {
+  if (dictionary.compact) {
+    const { compact } = dictionary;
+    if (!compact.commonness) return 0;
+    const index = compactIndexOf(compact, word);
+    return index < 0 ? 0 : compact.commonness[index];
+  }
+  return dictionary.commonness?.[word] || 0;
+}
+
+/**
+ * Whether an upper-case word is flagged as blocked in this dictionary's
+ * preprocessed data, read by index for a compact dictionary
+ */
+export function hasBlockedFlag(dictionary: DictionaryData, word: string): boolean {
+  if (dictionary.compact) {
+    const { compact } = dictionary;
+    if (!compact.blocked) return false;
+    const index = compactIndexOf(compact, word);
+    return index >= 0 && compact.blocked[index] === 1;
+  }
+  return !!dictionary.blocked?.includes(word);
+}
+
+/**
+ * How many words a dictionary has
+ */
+export function wordCount(dictionary: DictionaryData): number {
+  return dictionary.compact ? dictionary.compact.wordCount : dictionary.words.length;
+}
+
+/**
+ * The word at an index of a dictionary's word list
+ */
+export function wordAt(dictionary: DictionaryData, index: number): string | undefined {
+  if (index < 0 || index >= wordCount(dictionary)) return undefined;
+  return dictionary.compact ? compactWordAt(dictionary.compact, index) : dictionary.words[index];
+}
+
+/**
+ * Whether two upper-case words are in the same connectivity group, i.e. some
+ * ladder joins them. Constant time once the dictionary is loaded.
+ */
+export function areConnected(dictionary: DictionaryData, word1: string, word2: string): boolean {
+  if (dictionary.compact) {
+    const { compact } = dictionary;
+    const i = compactIndexOf(compact, word1);
+    const j = compactIndexOf(compact, word2);
+    return i >= 0 && j >= 0 && compact.components[i] === compact.components[j];
+  }
+
+  let groupIndex = groupIndexCache.get(dictionary);
+  if (!groupIndex) {
+    groupIndex = new Map();
+    for (const [groupId, words] of Object.entries(dictionary.groups)) {
+      for (const word of words) groupIndex.set(word, Number(groupId));
+    }
+    groupIndexCache.set(dictionary, groupIndex);
+  }
+  const group = groupIndex.get(word1);
+  return group !== undefined && group === groupIndex.get(word2);
+}
+
+/**
+ * Check whether a word exists in a preprocessed dictionary
+ */
+export function isDictionaryWord(word: string, dictionaryId?: string): boolean {
+  const upper = word.toUpperCase();
+  const dictionary = loadDictionary(upper.length, dictionaryId);
+  return !!dictionary && hasWord(dictionary, upper);
+}
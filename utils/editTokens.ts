@@ -0,0 +1,26 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Generate a secret token that lets a puzzle's creator update or delete it
+ */
+export function generateEditToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Only the hash is stored, so a leaked puzzle store does not leak tokens
+ */
+export function hashEditToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Constant-time check of a presented token against a stored hash
+ */
+export function verifyEditToken(token: string | null | undefined, expectedHash: string | undefined): boolean {
+  if (!token || !expectedHash) return false;
+
+  const actual = Buffer.from(hashEditToken(token), 'hex');
+  const expected = Buffer.from(expectedHash, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -1,6 +1,18 @@
-import { GameInfo } from '@/types/game';
-import { differByOne } from './wordLadder';
+import {
+  GameInfo,
+  LadderCandidate,
+  LadderConstraints,
+  LadderDifficulty,
+  LadderRules,
+  LanguageId,
+  PuzzleAnalysis,
+  PuzzleDifficulty,
+  WordNeighbor,
+} from '@/types/game';
+import { isLadderStep } from './wordLadder';
 import { getWordDefinitions, getWordDefinition, generateHintFromDefinition } from './dictionaryApi';
+import { DEFAULT_LANGUAGE, normalizeWord } from './languages';
+import { DictionaryInfo } from './dictionaries';
 
 // Simple word dictionary - in production, use a comprehensive dictionary API
 const COMMON_WORDS: Record<number, string[]> = {
@@ -50,41 +62,220 @@ function generateHint(word: string): string {
   return hints[word.toUpperCase()] || `A ${word.length}-letter word`;
 }
 
+/** How /api/word-ladder should look for alternatives to the shortest ladder */
+export interface LadderSearchOptions {
+  alternatives: 'all-shortest' | 'top-k';
+  limit?: number;
+  /** Longest ladder to consider, in words including both edges (top-k only) */
+  maxLength?: number;
+  /** Rung count, waypoints and words to avoid; implies a top-k search */
+  constraints?: LadderConstraints;
+  /** 'everyday' keeps to common words when the dictionary has commonness scores */
+  difficulty?: LadderDifficulty;
+  /** Variant rules return only the shortest ladder and take no constraints */
+  rules?: LadderRules;
+  /** Registered dictionary id; the default dictionary when omitted */
+  dictionary?: string;
+}
+
 /**
- * Find a word ladder path between two words using the API
- * Returns the minimum path found
+ * Ask the word ladder API for candidate ladders between two words.
+ * Returns the API's error message when none can be found.
  */
-export async function generateWordLadderGame(
+export async function fetchLadderCandidates(
   startWord: string,
-  endWord: string
-): Promise<GameInfo | null> {
-  if (startWord.length !== endWord.length) return null;
+  endWord: string,
+  options: LadderSearchOptions
+): Promise<{ candidates: LadderCandidate[] } | { error: string }> {
+  try {
+    const response = await fetch('/api/word-ladder', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        startWord: startWord.toUpperCase().trim(),
+        endWord: endWord.toUpperCase().trim(),
+        ...options,
+      }),
+    });
 
-  const start = startWord.toUpperCase().trim();
-  const end = endWord.toUpperCase().trim();
+    const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+    if (!response.ok || !Array.isArray(data.paths)) {
+      return { error: data.error || 'No valid word ladder path found' };
+    }
+    return { candidates: data.paths };
+  } catch (error) {
+    console.error('Error fetching ladder candidates:', error);
+    return { error: 'Could not reach the word ladder service' };
+  }
+}
 
+/**
+ * Ask the API for a random ladder with the given word length and rung count
+ */
+export async function fetchRandomLadder(
+  wordLength: number,
+  rungs: number,
+  options: { difficulty?: LadderDifficulty; preferCompound?: boolean; dictionary?: string } = {}
+): Promise<{ path: string[] } | { error: string }> {
   try {
-    // Call the word ladder API to find the shortest path
-    const response = await fetch('/api/word-ladder', {
+    const response = await fetch('/api/word-ladder/random', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ startWord: start, endWord: end }),
+      body: JSON.stringify({ wordLength, rungs, ...options }),
     });
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-      console.error('Word ladder API error:', error);
-      // Return null to trigger error message in UI
-      return null;
+    const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+    if (!response.ok || !Array.isArray(data.path)) {
+      return { error: data.error || 'Could not pick a random ladder' };
     }
+    return { path: data.path };
+  } catch (error) {
+    console.error('Error fetching random ladder:', error);
+    return { error: 'Could not reach the word ladder service' };
+  }
+}
 
-    const data = await response.json();
+/**
+ * Ask the API for a ladder through the author's own word list. `offTheme`
+ * lists the dictionary words used as connectors, if they were allowed.
+ */
+export async function fetchThemedLadder(
+  startWord: string,
+  endWord: string,
+  words: string[],
+  options: { allowConnectors?: boolean; difficulty?: LadderDifficulty; dictionary?: string } = {}
+): Promise<{ path: string[]; offTheme: string[] } | { error: string }> {
+  try {
+    const response = await fetch('/api/word-ladder/themed', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ startWord, endWord, words, ...options }),
+    });
 
-    if (!data.success || !data.path || data.path.length < 2) {
-      return null;
+    const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+    if (!response.ok || !Array.isArray(data.path)) {
+      return { error: data.error || 'No ladder found in your word list' };
+    }
+    return { path: data.path, offTheme: data.offTheme || [] };
+  } catch (error) {
+    console.error('Error fetching themed ladder:', error);
+    return { error: 'Could not reach the word ladder service' };
+  }
+}
+
+/**
+ * Dictionary words one letter change away from a word, most common first
+ */
+export async function fetchWordNeighbors(
+  word: string,
+  dictionary?: string
+): Promise<{ neighbors: WordNeighbor[] } | { error: string }> {
+  try {
+    const params = new URLSearchParams({ word });
+    if (dictionary) params.set('dictionary', dictionary);
+    const response = await fetch(`/api/word-ladder/neighbors?${params}`);
+
+    const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+    if (!response.ok || !Array.isArray(data.neighbors)) {
+      return { error: data.error || 'Could not look up neighboring words' };
+    }
+    return { neighbors: data.neighbors };
+  } catch (error) {
+    console.error('Error fetching word neighbors:', error);
+    return { error: 'Could not reach the word ladder service' };
+  }
+}
+
+/**
+ * Dictionaries the server has preprocessed data for
+ */
+export async function fetchDictionaries(): Promise<{ dictionaries: DictionaryInfo[] } | { error: string }> {
+  try {
+    const response = await fetch('/api/dictionaries');
+
+    const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+    if (!response.ok || !Array.isArray(data.dictionaries)) {
+      return { error: data.error || 'Could not list dictionaries' };
     }
+    return { dictionaries: data.dictionaries };
+  } catch (error) {
+    console.error('Error fetching dictionaries:', error);
+    return { error: 'Could not reach the dictionary service' };
+  }
+}
 
-    const path = data.path;
+/**
+ * Ask the API which other words and row orders would also fit a puzzle,
+ * and how hard it would be rated
+ */
+export async function fetchPuzzleAnalysis(
+  gameInfo: GameInfo
+): Promise<{ analysis: PuzzleAnalysis; difficulty: PuzzleDifficulty } | { error: string }> {
+  try {
+    const response = await fetch('/api/puzzle/analyze', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ gameInfo }),
+    });
+
+    const data = await response.json().catch(() => ({ error: 'Unknown error' }));
+    if (!response.ok || !data.analysis) {
+      return { error: data.error || 'Could not analyze the puzzle' };
+    }
+    return { analysis: data.analysis, difficulty: data.difficulty };
+  } catch (error) {
+    console.error('Error fetching puzzle analysis:', error);
+    return { error: 'Could not reach the puzzle analyzer' };
+  }
+}
+
+/**
+ * Find a word ladder path between two words using the API
+ * Returns the minimum path found, unless the caller already chose a `path`.
+ * Definitions are only looked up for English; other languages get placeholder hints.
+ */
+export async function generateWordLadderGame(
+  startWord: string,
+  endWord: string,
+  chosenPath?: string[],
+  language: LanguageId = DEFAULT_LANGUAGE
+): Promise<GameInfo | null> {
+  // A chosen path may change length under the add/drop rules
+  if (!chosenPath && startWord.length !== endWord.length) return null;
+
+  const start = normalizeWord(startWord.trim(), language);
+  const end = normalizeWord(endWord.trim(), language);
+  const english = language === DEFAULT_LANGUAGE;
+  const define = (word: string) => (english ? getWordDefinition(word) : Promise.resolve(null));
+
+  try {
+    let path: string[];
+
+    if (chosenPath) {
+      path = chosenPath;
+    } else {
+      // Call the word ladder API to find the shortest path
+      const response = await fetch('/api/word-ladder', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startWord: start, endWord: end }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Unknown error' }));
+        console.error('Word ladder API error:', error);
+        // Return null to trigger error message in UI
+        return null;
+      }
+
+      const data = await response.json();
+
+      if (!data.success || !data.path || data.path.length < 2) {
+        return null;
+      }
+
+      path = data.path;
+    }
 
     // Need at least 3 words (start, middle, end)
     if (path.length < 3) {
@@ -96,7 +287,7 @@ export async function generateWordLadderGame(
 
     // Get dictionary definitions first (free, unlimited) - this is the default
     const allWords = [...path];
-    const definitions = await getWordDefinitions(allWords);
+    const definitions = english ? await getWordDefinitions(allWords) : {};
 
     // Optionally enhance with Gemini if enabled (for testing/beta)
     const useGemini = process.env.USE_GEMINI_CLUES === 'true';
@@ -122,8 +313,8 @@ export async function generateWordLadderGame(
       const compound1 = edgeWords[0] + edgeWords[1];
       const compound2 = edgeWords[1] + edgeWords[0];
       
-      const compoundDef1 = await getWordDefinition(compound1);
-      const compoundDef2 = await getWordDefinition(compound2);
+      const compoundDef1 = await define(compound1);
+      const compoundDef2 = await define(compound2);
       
       if (compoundDef1) {
         // Found compound word: word1 + word2
@@ -135,8 +326,8 @@ export async function generateWordLadderGame(
         edgeHint = `The top + bottom rows = ${compoundHint}`;
       } else {
         // No compound word found, use individual definitions
-        const edgeDef1 = await getWordDefinition(edgeWords[0]);
-        const edgeDef2 = await getWordDefinition(edgeWords[1]);
+        const edgeDef1 = await define(edgeWords[0]);
+        const edgeDef2 = await define(edgeWords[1]);
         
         if (edgeDef1 && edgeDef2) {
           // Try to create a more natural compound hint
@@ -202,13 +393,13 @@ async function generateAiClues(
 }
 
 /**
- * Validate that a word ladder is valid (each word differs by one letter)
+ * Validate that a word ladder is valid (each step follows the puzzle's rules)
  */
-export function validateWordLadder(words: string[]): boolean {
+export function validateWordLadder(words: string[], rules: LadderRules = 'classic'): boolean {
   if (words.length < 2) return false;
 
   for (let i = 0; i < words.length - 1; i++) {
-    if (!differByOne(words[i], words[i + 1])) {
+    if (!isLadderStep(words[i], words[i + 1], rules)) {
       return false;
     }
   }
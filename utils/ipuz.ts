@@ -0,0 +1,144 @@
+import { GameInfo, LadderRules, LanguageId } from '@/types/game';
+import { getLanguage } from './languages';
+
+export const IPUZ_VERSION = 'http://ipuz.org/v2';
+/** Custom ipuz kind for Crossclimb word ladders */
+export const IPUZ_WORD_LADDER_KIND = 'http://crossclimb.app/ipuz/wordladder#1';
+
+// ipuz extensions must be namespaced
+const EDGE_HINT_FIELD = 'com.crossclimb:edgeHint';
+const UNLISTED_FIELD = 'com.crossclimb:unlisted';
+const RULES_FIELD = 'com.crossclimb:rules';
+const DICTIONARY_FIELD = 'com.crossclimb:dictionary';
+const LANGUAGE_FIELD = 'com.crossclimb:language';
+// Pads rows shorter than the grid when words vary in length
+const BLOCK = '#';
+const EDGE_CLUES = 'Across:Top + Bottom';
+
+type IpuzClue = [number, string] | { number: number; clue: string };
+
+export interface IpuzDocument {
+  version: string;
+  kind: string[];
+  title?: string;
+  author?: string;
+  dimensions: { width: number; height: number };
+  puzzle: Array<Array<number | string>>;
+  solution: string[][];
+  clues: Record<string, IpuzClue[]>;
+  /** Letters answers may use; ipuz assumes A-Z when absent */
+  charset?: string;
+  [EDGE_HINT_FIELD]?: string;
+  [extension: string]: unknown;
+}
+
+/**
+ * Convert a puzzle into an ipuz document. Rows are laid out top to bottom in
+ * ladder order; each row is one across entry numbered from 1. Rows shorter
+ * than the longest word end in block cells.
+ */
+export function gameInfoToIpuz(gameInfo: GameInfo): IpuzDocument {
+  const ladder = [gameInfo.edgeWords[0], ...gameInfo.words.map((w) => w.correct), gameInfo.edgeWords[1]];
+  const width = Math.max(...ladder.map((word) => word.length));
+  const pad = (word: string) => Array(width - word.length).fill(BLOCK);
+  const lastRow = ladder.length;
+
+  const document: IpuzDocument = {
+    version: IPUZ_VERSION,
+    kind: [IPUZ_WORD_LADDER_KIND],
+    title: gameInfo.title,
+    dimensions: { width, height: ladder.length },
+    puzzle: ladder.map((word, row) => [row + 1, ...Array(word.length - 1).fill(0), ...pad(word)]),
+    solution: ladder.map((word) => [...word.split(''), ...pad(word)]),
+    clues: {
+      Across: gameInfo.words.map((w, i): IpuzClue => [i + 2, w.hint]),
+      [EDGE_CLUES]: [
+        [1, gameInfo.edgeHint],
+        [lastRow, gameInfo.edgeHint],
+      ],
+    },
+    [EDGE_HINT_FIELD]: gameInfo.edgeHint,
+  };
+
+  if (gameInfo.author) {
+    document.author = gameInfo.author;
+  }
+  if (gameInfo.unlisted) {
+    document[UNLISTED_FIELD] = true;
+  }
+  if (gameInfo.rules) {
+    document[RULES_FIELD] = gameInfo.rules;
+  }
+  if (gameInfo.dictionary) {
+    document[DICTIONARY_FIELD] = gameInfo.dictionary;
+  }
+  if (gameInfo.language) {
+    document[LANGUAGE_FIELD] = gameInfo.language;
+    document.charset = getLanguage(gameInfo.language).alphabet;
+  }
+
+  return document;
+}
+
+function clueText(clue: IpuzClue | undefined): string {
+  if (!clue) return '';
+  return Array.isArray(clue) ? String(clue[1] ?? '') : String(clue.clue ?? '');
+}
+
+function clueNumber(clue: IpuzClue): number {
+  return Array.isArray(clue) ? Number(clue[0]) : Number(clue.number);
+}
+
+/**
+ * Read a word-ladder ipuz document back into a (not yet validated) GameInfo.
+ * Throws with a readable message if the document is not a Crossclimb ladder.
+ */
+export function ipuzToGameInfo(document: unknown): GameInfo {
+  const doc = document as Partial<IpuzDocument> | null;
+
+  if (!doc || typeof doc !== 'object' || typeof doc.version !== 'string' || !doc.version.startsWith('http://ipuz.org/')) {
+    throw new Error('Not an ipuz document');
+  }
+  if (!Array.isArray(doc.kind) || !doc.kind.includes(IPUZ_WORD_LADDER_KIND)) {
+    throw new Error(`Unsupported ipuz kind; expected ${IPUZ_WORD_LADDER_KIND}`);
+  }
+  if (!Array.isArray(doc.solution) || doc.solution.length < 3) {
+    throw new Error('ipuz solution must have at least 3 rows');
+  }
+
+  const ladder = doc.solution.map((row) =>
+    Array.isArray(row) ? row.map((cell) => (typeof cell === 'string' && cell !== BLOCK ? cell : '')).join('') : ''
+  );
+
+  // Middle-row clues are numbered by row (the top row is 1)
+  const across = Array.isArray(doc.clues?.Across) ? doc.clues!.Across : [];
+  const hintsByRow = new Map(across.map((clue) => [clueNumber(clue), clueText(clue)]));
+  const edgeHint =
+    typeof doc[EDGE_HINT_FIELD] === 'string'
+      ? (doc[EDGE_HINT_FIELD] as string)
+      : clueText(doc.clues?.[EDGE_CLUES]?.[0]);
+
+  const gameInfo: GameInfo = {
+    title: typeof doc.title === 'string' ? doc.title : '',
+    words: ladder.slice(1, -1).map((correct, i) => ({ correct, hint: hintsByRow.get(i + 2) || '' })),
+    edgeWords: [ladder[0], ladder[ladder.length - 1]],
+    edgeHint,
+  };
+  if (typeof doc.author === 'string' && doc.author) {
+    gameInfo.author = doc.author;
+  }
+  if (doc[UNLISTED_FIELD] === true) {
+    gameInfo.unlisted = true;
+  }
+  if (typeof doc[RULES_FIELD] === 'string') {
+    gameInfo.rules = doc[RULES_FIELD] as LadderRules;
+  }
+  if (typeof doc[DICTIONARY_FIELD] === 'string') {
+    gameInfo.dictionary = doc[DICTIONARY_FIELD] as string;
+  }
+  if (typeof doc[LANGUAGE_FIELD] === 'string') {
+    gameInfo.language = doc[LANGUAGE_FIELD] as LanguageId;
+  }
+
+  return gameInfo;
+}
@@ -0,0 +1,230 @@
+import { LadderCandidate } from '@/types/game';
+import { DictionaryData } from './dictionaryData';
+import { rarestMiddleWord } from './wordCommonness';
+import { NeighborLookup, PathSearchOptions, searchLadder } from './wordLadder';
+
+// Bounds the depth-first search for longer ladders on dense graphs
+const MAX_SEARCH_EXPANSIONS = 200_000;
+
+/** Constraints for findSimplePaths; lengths count words including both edges */
+export interface SimplePathOptions {
+  minLength?: number;
+  maxLength: number;
+  limit: number;
+  /** Words the ladder must pass through, in this order */
+  via?: string[];
+  /** Words the ladder must not use */
+  avoid?: string[];
+}
+
+export interface SimplePathResult {
+  paths: string[][];
+  /** Fewest words a ladder through all waypoints can have, or null if there is none */
+  shortestPossible: number | null;
+  /** First waypoint (or the end word) that can't be reached from the one before it */
+  unreachable?: string;
+  /** The search hit its step budget, so longer ladders may still exist */
+  exhausted: boolean;
+}
+
+/**
+ * Breadth-first distances from one word to every word reachable from it
+ */
+function distancesFrom(
+  word: string,
+  neighbors: NeighborLookup,
+  blocked: Set<string> = new Set()
+): Map<string, number> {
+  const distances = new Map<string, number>([[word, 0]]);
+  const queue = [word];
+
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
+    const distance = distances.get(current)!;
+    for (const neighbor of neighbors(current)) {
+      if (!distances.has(neighbor) && !blocked.has(neighbor)) {
+        distances.set(neighbor, distance + 1);
+        queue.push(neighbor);
+      }
+    }
+  }
+
+  return distances;
+}
+
+/**
+ * Find the shortest path through the dictionary graph; see `searchLadder`
+ */
+export function findShortestPath(
+  startWord: string,
+  endWord: string,
+  neighbors: NeighborLookup,
+  options: PathSearchOptions = {}
+): string[] | null {
+  const start = startWord.toUpperCase();
+  const end = endWord.toUpperCase();
+
+  if (neighbors(start).length === 0 || neighbors(end).length === 0) {
+    return null; // Words not in dictionary, or with no ladder out
+  }
+
+  return searchLadder(start, end, neighbors, options);
+}
+
+/**
+ * Every shortest path between two words, up to `limit` of them.
+ * Walks forward from the start only along steps that get one closer to the end.
+ */
+export function findAllShortestPaths(
+  startWord: string,
+  endWord: string,
+  neighbors: NeighborLookup,
+  limit: number
+): string[][] {
+  const start = startWord.toUpperCase();
+  const end = endWord.toUpperCase();
+  if (neighbors(start).length === 0 || neighbors(end).length === 0) return [];
+
+  const toEnd = distancesFrom(end, neighbors);
+  if (!toEnd.has(start)) return [];
+
+  const paths: string[][] = [];
+  const walk = (path: string[]) => {
+    if (paths.length >= limit) return;
+    const word = path[path.length - 1];
+    if (word === end) {
+      paths.push(path);
+      return;
+    }
+    const remaining = toEnd.get(word)!;
+    for (const neighbor of neighbors(word)) {
+      if (toEnd.get(neighbor) === remaining - 1) {
+        walk([...path, neighbor]);
+      }
+    }
+  };
+
+  walk([start]);
+  return paths;
+}
+
+/**
+ * The `limit` shortest simple paths (no repeated words) between two words
+ * that pass through every `via` word in order, never use an `avoid` word, and
+ * have between `minLength` and `maxLength` words, shortest first.
+ *
+ * Ladders are searched one length at a time. Breadth-first distances to each
+ * remaining waypoint give a lower bound on the words still needed, so any
+ * branch that can no longer finish within the current length is cut early.
+ */
+export function findSimplePaths(
+  startWord: string,
+  endWord: string,
+  neighbors: NeighborLookup,
+  { minLength = 2, maxLength, limit, via = [], avoid = [] }: SimplePathOptions
+): SimplePathResult {
+  const start = startWord.toUpperCase();
+  const end = endWord.toUpperCase();
+  const result: SimplePathResult = { paths: [], shortestPossible: null, exhausted: false };
+  if (neighbors(start).length === 0 || neighbors(end).length === 0) return result;
+
+  const blocked = new Set(avoid.map((word) => word.toUpperCase()));
+  const targets = [...via.map((word) => word.toUpperCase()), end];
+  const targetIndex = new Map(targets.map((word, i) => [word, i]));
+
+  // toTarget[i] holds distances to targets[i]; afterTarget[i] is the fewest
+  // steps from targets[i - 1] (or the start) through all later targets
+  const toTarget = targets.map((target) => distancesFrom(target, neighbors, blocked));
+  const afterTarget: number[] = new Array(targets.length + 1).fill(0);
+  for (let i = targets.length - 1; i >= 0; i--) {
+    const from = i === 0 ? start : targets[i - 1];
+    const steps = toTarget[i].get(from);
+    if (steps === undefined) {
+      result.unreachable = targets[i];
+      return result;
+    }
+    afterTarget[i] = steps + afterTarget[i + 1];
+  }
+  result.shortestPossible = afterTarget[0] + 1;
+
+  let expansions = 0;
+
+  for (let length = Math.max(minLength, result.shortestPossible); length <= maxLength; length++) {
+    const onPath = new Set<string>([start]);
+    const walk = (path: string[], next: number) => {
+      if (result.paths.length >= limit || expansions >= MAX_SEARCH_EXPANSIONS) return;
+      expansions++;
+
+      if (next === targets.length) {
+        if (path.length === length) result.paths.push([...path]);
+        return;
+      }
+
+      const word = path[path.length - 1];
+      for (const neighbor of neighbors(word)) {
+        if (onPath.has(neighbor) || blocked.has(neighbor)) continue;
+
+        // Waypoints must be visited in order; reaching a later one early would
+        // force the ladder to repeat it
+        const index = targetIndex.get(neighbor);
+        if (index !== undefined && index !== next) continue;
+        const nextAfter = index === next ? next + 1 : next;
+
+        // Fewest words still needed after this one to finish the ladder
+        const distance = nextAfter === targets.length ? 0 : toTarget[nextAfter].get(neighbor);
+        if (distance === undefined) continue;
+        const stillNeeded = nextAfter === targets.length ? 0 : distance + afterTarget[nextAfter + 1];
+        if (path.length + 1 + stillNeeded > length) continue;
+
+        onPath.add(neighbor);
+        path.push(neighbor);
+        walk(path, nextAfter);
+        path.pop();
+        onPath.delete(neighbor);
+      }
+    };
+
+    walk([start], 0);
+    if (result.paths.length >= limit) break;
+    if (expansions >= MAX_SEARCH_EXPANSIONS) {
+      result.exhausted = true;
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Describe each ladder so authors can tell similar candidates apart.
+ * With a dictionary that has commonness scores, also note each ladder's
+ * rarest middle word.
+ */
+export function annotateLadders(
+  paths: string[][],
+  scored?: DictionaryData
+): LadderCandidate[] {
+  const usage = new Map<string, number>();
+  for (const path of paths) {
+    for (const word of Array.from(new Set(path.slice(1, -1)))) {
+      usage.set(word, (usage.get(word) || 0) + 1);
+    }
+  }
+
+  return paths.map((path) => {
+    const candidate: LadderCandidate = {
+      path,
+      length: path.length,
+      changedPositions: path.slice(1).map((word, i) =>
+        Array.from(word).findIndex((letter, position) => letter !== path[i][position])
+      ),
+      distinctWords: path.slice(1, -1).filter((word) => usage.get(word) === 1),
+    };
+    if (scored) {
+      const rarest = rarestMiddleWord(path, scored);
+      candidate.commonness = rarest.score;
+      candidate.rarestWord = rarest.word;
+    }
+    return candidate;
+  });
+}
@@ -0,0 +1,118 @@
+import { LanguageId } from '@/types/game';
+
+/**
+ * How a language spells its words. Letters in `alphabet` are distinct; any
+ * other accented letter is folded to its base letter, so an English or French
+ * puzzle treats É as E while a Spanish one keeps Ñ apart from N.
+ */
+export interface Language {
+  id: LanguageId;
+  name: string;
+  /** Used for locale-aware upper-casing */
+  locale: string;
+  /** Every letter a word may contain, upper-case */
+  alphabet: string;
+  /** Applied before upper-casing, for characters that would otherwise change */
+  replacements: Record<string, string>;
+}
+
+const LATIN = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export const LANGUAGES: Language[] = [
+  { id: 'en', name: 'English', locale: 'en', alphabet: LATIN, replacements: {} },
+  { id: 'es', name: 'Spanish', locale: 'es', alphabet: LATIN + 'Ñ', replacements: {} },
+  {
+    id: 'de',
+    name: 'German',
+    locale: 'de',
+    alphabet: LATIN + 'ÄÖÜẞ',
+    // ß upper-cases to SS, which would change the word's length; keep it as capital ẞ
+    replacements: { ß: 'ẞ' },
+  },
+  {
+    id: 'fr',
+    name: 'French',
+    locale: 'fr',
+    alphabet: LATIN,
+    replacements: { œ: 'OE', Œ: 'OE', æ: 'AE', Æ: 'AE' },
+  },
+];
+
+/** Used whenever a puzzle names no language */
+export const DEFAULT_LANGUAGE: LanguageId = 'en';
+
+/**
+ * Whether a value names a supported language
+ */
+export function isLanguageId(value: unknown): value is LanguageId {
+  return typeof value === 'string' && LANGUAGES.some((language) => language.id === value);
+}
+
+export function getLanguage(id: LanguageId = DEFAULT_LANGUAGE): Language {
+  return LANGUAGES.find((language) => language.id === id) || LANGUAGES[0];
+}
+
+function spell(text: string, locale: string, alphabet: string, replacements: Record<string, string>): string {
+  return Array.from(text.normalize('NFC'))
+    .map((char) => {
+      const upper = (replacements[char] ?? char).toLocaleUpperCase(locale);
+      if (upper.length === 1 && alphabet.includes(upper)) return upper;
+      return upper.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    })
+    .join('');
+}
+
+/**
+ * Upper-case text the way the language spells it, folding accents that are
+ * not letters of its own. Characters that are not letters are left in place
+ * for validation to reject.
+ */
+export function normalizeWord(text: string, language: LanguageId = DEFAULT_LANGUAGE): string {
+  const { locale, alphabet, replacements } = getLanguage(language);
+  return spell(text, locale, alphabet, replacements);
+}
+
+/**
+ * Whether a normalized word uses only the language's letters
+ */
+export function isLanguageWord(word: string, language: LanguageId = DEFAULT_LANGUAGE): boolean {
+  const { alphabet } = getLanguage(language);
+  return word.length > 0 && Array.from(word).every((char) => alphabet.includes(char));
+}
+
+/**
+ * The letter a key press stands for, or null when it is not one
+ */
+export function normalizeLetter(key: string, language: LanguageId = DEFAULT_LANGUAGE): string | null {
+  if (Array.from(key).length !== 1) return null;
+  const letter = normalizeWord(key, language);
+  return letter.length === 1 && isLanguageWord(letter, language) ? letter : null;
+}
+
+/**
+ * The language's letters for messages, e.g. "A-Z and Ñ"
+ */
+export function describeAlphabet(language: LanguageId = DEFAULT_LANGUAGE): string {
+  const extra = Array.from(getLanguage(language).alphabet.slice(LATIN.length));
+  if (extra.length === 0) return 'A-Z';
+  return `A-Z and ${extra.length === 1 ? extra[0] : `${extra.slice(0, -1).join(', ')}, ${extra[extra.length - 1]}`}`;
+}
+
+// Letters and replacements of every language, for lists shared between them
+const ALL_LETTERS = Array.from(new Set(LANGUAGES.flatMap((language) => Array.from(language.alphabet)))).join('');
+const ALL_REPLACEMENTS = Object.assign({}, ...LANGUAGES.map((language) => language.replacements));
+
+/**
+ * Upper-case a word whose language isn't known, keeping the letters of every
+ * supported language; used for lists shared by all of them, like the blocklist
+ */
+export function normalizeAnyWord(text: string): string {
+  return spell(text, 'en', ALL_LETTERS, ALL_REPLACEMENTS);
+}
+
+/**
+ * Whether a word is spelled with the letters of some supported language
+ */
+export function isAnyLanguageWord(word: string): boolean {
+  return LANGUAGES.some((language) => isLanguageWord(word, language.id));
+}
@@ -0,0 +1,61 @@
+const OWNED_PUZZLES_KEY = 'crossclimb-owned-puzzles';
+
+/** A puzzle this browser published, with the token needed to manage it */
+export interface OwnedPuzzle {
+  id: string;
+  title: string;
+  editToken: string;
+  createdAt: string;
+}
+
+function readOwnedPuzzles(): Record<string, OwnedPuzzle> {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(OWNED_PUZZLES_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeOwnedPuzzles(puzzles: Record<string, OwnedPuzzle>): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(OWNED_PUZZLES_KEY, JSON.stringify(puzzles));
+  }
+}
+
+/**
+ * Remember the edit token returned when this browser published a puzzle
+ */
+export function saveOwnedPuzzle(id: string, title: string, editToken: string): void {
+  const puzzles = readOwnedPuzzles();
+  puzzles[id] = {
+    id,
+    title,
+    editToken,
+    createdAt: puzzles[id]?.createdAt || new Date().toISOString(),
+  };
+  writeOwnedPuzzles(puzzles);
+}
+
+/**
+ * Get the edit token for a puzzle, if this browser created it
+ */
+export function getEditToken(id: string): string | null {
+  return readOwnedPuzzles()[id]?.editToken || null;
+}
+
+/**
+ * Puzzles this browser can manage, newest first
+ */
+export function listOwnedPuzzles(): OwnedPuzzle[] {
+  return Object.values(readOwnedPuzzles()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Forget a puzzle after it has been deleted
+ */
+export function removeOwnedPuzzle(id: string): void {
+  const puzzles = readOwnedPuzzles();
+  delete puzzles[id];
+  writeOwnedPuzzles(puzzles);
+}
@@ -0,0 +1,120 @@
+import { GameInfo, LadderRules, LanguageId } from '@/types/game';
+import { validateGameInfo } from './puzzleValidation';
+
+/** Placeholder id used in portable links: `/play/x#<payload>` */
+export const PORTABLE_PUZZLE_ID = 'x';
+
+const PAYLOAD_VERSION = 1;
+
+// Compact positional layout keeps the URL short:
+// [version, title, author, edgeHint, [top, bottom], [[word, hint], ...], rules?, dictionary?, language?]
+// with null standing in for optional fields left at their defaults before a later one
+type PortablePayload = [
+  number,
+  string,
+  string,
+  string,
+  [string, string],
+  Array<[string, string]>,
+  (LadderRules | null)?,
+  (string | null)?,
+  LanguageId?,
+];
+
+/**
+ * Shift each letter by an amount that depends on its position so answers
+ * are not readable at a glance in a decoded payload. This is not security.
+ */
+function shiftWord(word: string, direction: 1 | -1): string {
+  return word
+    .split('')
+    .map((char, i) => {
+      const code = char.charCodeAt(0) - 65;
+      if (code < 0 || code > 25) return char;
+      return String.fromCharCode(((code + direction * (7 + i * 3)) % 26 + 26) % 26 + 65);
+    })
+    .join('');
+}
+
+async function transform(bytes: BlobPart, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string) {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/**
+ * Encode a whole puzzle into a URL-safe string (deflate + base64url)
+ */
+export async function encodePortablePuzzle(gameInfo: GameInfo): Promise<string> {
+  const payload: PortablePayload = [
+    PAYLOAD_VERSION,
+    gameInfo.title,
+    gameInfo.author || '',
+    gameInfo.edgeHint,
+    [shiftWord(gameInfo.edgeWords[0], 1), shiftWord(gameInfo.edgeWords[1], 1)],
+    gameInfo.words.map((w) => [shiftWord(w.correct, 1), w.hint]),
+  ];
+  if (gameInfo.rules || gameInfo.dictionary || gameInfo.language) {
+    payload.push(gameInfo.rules ?? null);
+  }
+  if (gameInfo.dictionary || gameInfo.language) {
+    payload.push(gameInfo.dictionary ?? null);
+  }
+  if (gameInfo.language) {
+    payload.push(gameInfo.language);
+  }
+
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  return toBase64Url(await transform(json, new CompressionStream('deflate-raw')));
+}
+
+/**
+ * Decode a portable payload; returns null if it is corrupt or not a valid ladder
+ */
+export async function decodePortablePuzzle(encoded: string): Promise<GameInfo | null> {
+  try {
+    const json = await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    const payload = JSON.parse(new TextDecoder().decode(json)) as PortablePayload;
+
+    if (!Array.isArray(payload) || payload[0] !== PAYLOAD_VERSION) {
+      return null;
+    }
+
+    const [, title, author, edgeHint, edgeWords, words, rules, dictionary, language] = payload;
+    const validation = validateGameInfo({
+      title,
+      author: author || undefined,
+      edgeHint,
+      edgeWords: edgeWords.map((w) => shiftWord(w, -1)),
+      words: words.map(([correct, hint]) => ({ correct: shiftWord(correct, -1), hint })),
+      rules: rules ?? undefined,
+      dictionary: dictionary ?? undefined,
+      language,
+    });
+
+    return validation.valid ? validation.gameInfo : null;
+  } catch (error) {
+    console.error('Error decoding portable puzzle:', error);
+    return null;
+  }
+}
+
+/**
+ * Build a link that plays the puzzle without any server storage
+ */
+export async function buildPortableLink(origin: string, gameInfo: GameInfo): Promise<string> {
+  return `${origin}/play/${PORTABLE_PUZZLE_ID}#${await encodePortablePuzzle(gameInfo)}`;
+}
@@ -0,0 +1,120 @@
+import { GameInfo, PuzzleAnalysis, PuzzleOrdering, RungAlternatives } from '@/types/game';
+import { commonnessScore, loadDictionary } from './dictionaryData';
+import { puzzleDictionary } from './dictionaries';
+import { variantNeighbors } from './variantLadders';
+import { isLadderStep } from './wordLadder';
+
+const MAX_ALTERNATIVES = 12;
+const MAX_ORDERINGS = 5;
+// Orderings are Hamiltonian paths over the middle words; bound the search
+const MAX_ORDERING_STEPS = 50000;
+
+/**
+ * Dictionary words that could replace each middle word while every step of
+ * the ladder stays valid, most common first
+ */
+function findRungAlternatives(gameInfo: GameInfo, isBlocked: (word: string) => boolean): RungAlternatives[] {
+  const rules = gameInfo.rules || 'classic';
+  const ladder = [gameInfo.edgeWords[0], ...gameInfo.words.map((w) => w.correct), gameInfo.edgeWords[1]];
+  const used = new Set(ladder);
+  const dictionaryId = puzzleDictionary(gameInfo);
+  const neighbors = variantNeighbors(rules, (word) => !used.has(word) && !isBlocked(word), dictionaryId);
+
+  const rungs: RungAlternatives[] = [];
+  gameInfo.words.forEach((word, index) => {
+    const above = ladder[index];
+    const below = ladder[index + 2];
+    const found = Array.from(new Set(neighbors(above))).filter((candidate) => isLadderStep(candidate, below, rules));
+    if (found.length === 0) return;
+
+    const score = (candidate: string) => {
+      const dictionary = loadDictionary(candidate.length, dictionaryId);
+      return dictionary ? commonnessScore(dictionary, candidate) : 0;
+    };
+    found.sort((a, b) => score(b) - score(a) || a.localeCompare(b));
+    rungs.push({
+      index,
+      word: word.correct,
+      alternatives: found.slice(0, MAX_ALTERNATIVES),
+      total: found.length,
+    });
+  });
+  return rungs;
+}
+
+/**
+ * Orders of the middle words, other than the author's and its reverse, in
+ * which every adjacent pair is a valid step. `useGame` accepts any of them as
+ * sorted, so those that don't meet the edge words leave players stuck.
+ */
+function findOtherOrderings(gameInfo: GameInfo): { orderings: PuzzleOrdering[]; capped: boolean } {
+  const rules = gameInfo.rules || 'classic';
+  const middle = gameInfo.words.map((w) => w.correct);
+  const [top, bottom] = gameInfo.edgeWords;
+  const authorKey = middle.join(' ');
+  const reverseKey = [...middle].reverse().join(' ');
+
+  const adjacent = middle.map((word) =>
+    middle.map((other, j) => (word !== other && isLadderStep(word, other, rules) ? j : -1)).filter((j) => j >= 0)
+  );
+
+  const orderings: PuzzleOrdering[] = [];
+  const seen = new Set<string>([authorKey, reverseKey]);
+  const placed = new Array<boolean>(middle.length).fill(false);
+  const order: number[] = [];
+  let steps = 0;
+  let capped = false;
+
+  const visit = (i: number) => {
+    if (capped) return;
+    if (++steps > MAX_ORDERING_STEPS) {
+      capped = true;
+      return;
+    }
+
+    placed[i] = true;
+    order.push(i);
+
+    if (order.length === middle.length) {
+      const words = order.map((j) => middle[j]);
+      const key = words.join(' ');
+      if (!seen.has(key)) {
+        // A path and its reverse are the same ordering of rows
+        seen.add(key);
+        seen.add([...words].reverse().join(' '));
+        const first = words[0];
+        const last = words[words.length - 1];
+        const fitsEdges =
+          (isLadderStep(top, first, rules) && isLadderStep(bottom, last, rules)) ||
+          (isLadderStep(bottom, first, rules) && isLadderStep(top, last, rules));
+        orderings.push({ words, fitsEdges });
+        if (orderings.length >= MAX_ORDERINGS) capped = true;
+      }
+    } else {
+      for (const j of adjacent[i]) {
+        if (!placed[j]) visit(j);
+      }
+    }
+
+    order.pop();
+    placed[i] = false;
+  };
+
+  for (let i = 0; i < middle.length && !capped; i++) {
+    visit(i);
+  }
+  return { orderings, capped };
+}
+
+/**
+ * Find what could make a puzzle ambiguous for players: other words that fit
+ * a rung, and other orders the middle rows sort into
+ */
+export function analyzePuzzle(gameInfo: GameInfo, isBlocked: (word: string) => boolean = () => false): PuzzleAnalysis {
+  const { orderings, capped } = findOtherOrderings(gameInfo);
+  return {
+    rungs: findRungAlternatives(gameInfo, isBlocked),
+    orderings,
+    orderingsCapped: capped,
+  };
+}
@@ -0,0 +1,124 @@
+import { DifficultyFactor, DifficultyLevel, GameInfo, PuzzleDifficulty, StoredPuzzle } from '@/types/game';
+import { commonnessScore, loadDictionary } from './dictionaryData';
+import { puzzleDictionary } from './dictionaries';
+import { variantNeighbors } from './variantLadders';
+import { getRevisions } from './puzzleRevisions';
+import { pickGameInfo } from './puzzleValidation';
+import { hasCommonness } from './wordCommonness';
+
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+// Relative weight of each factor in the word-based estimate
+const WEIGHTS: Record<Exclude<DifficultyFactor, 'solveTime'>, number> = {
+  commonness: 3,
+  rungs: 2,
+  wordLength: 1,
+  ambiguity: 2,
+  clues: 2,
+};
+
+// Solve times start to count after a few solves and take over most of the score by 20
+const MIN_SOLVES = 3;
+const FULL_WEIGHT_SOLVES = 20;
+const MAX_SOLVE_WEIGHT = 0.7;
+
+// Average seconds per rung that count as trivially fast and as very slow
+const FAST_SECONDS_PER_RUNG = 10;
+const SLOW_SECONDS_PER_RUNG = 60;
+
+// Upper bounds of the easy and medium scores
+const LEVEL_THRESHOLDS: [number, DifficultyLevel][] = [
+  [34, 'easy'],
+  [67, 'medium'],
+];
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Short clues and the generator's "A 5-letter word" fallback say little about the answer
+ */
+function clueVagueness(hint: string): number {
+  if (/^an? \d+-letter word$/i.test(hint.trim())) return 1;
+  const words = hint.trim().split(/\s+/).filter(Boolean).length;
+  return clamp(1 - (words - 2) / 10);
+}
+
+/**
+ * Score each factor the puzzle's words and clues let us measure
+ */
+function measureFactors(gameInfo: GameInfo): Partial<Record<DifficultyFactor, number>> {
+  const middle = gameInfo.words.map((w) => w.correct);
+  const factors: Partial<Record<DifficultyFactor, number>> = {
+    rungs: clamp((middle.length - 2) / 8),
+    wordLength: clamp((average(middle.map((word) => word.length)) - 3) / 5),
+    clues: average(gameInfo.words.map((w) => clueVagueness(w.hint))),
+  };
+
+  // Words with many neighbors leave more candidates to rule out
+  const dictionaryId = puzzleDictionary(gameInfo);
+  const neighbors = variantNeighbors(gameInfo.rules || 'classic', () => true, dictionaryId);
+  factors.ambiguity = clamp(average(middle.map((word) => neighbors(word).length)) / 25);
+
+  const dictionaries = middle.map((word) => loadDictionary(word.length, dictionaryId));
+  if (dictionaries.every((dictionary) => dictionary && hasCommonness(dictionary))) {
+    factors.commonness = average(middle.map((word, i) => 1 - commonnessScore(dictionaries[i]!, word) / 100));
+  }
+
+  return factors;
+}
+
+/**
+ * Estimate how hard a puzzle is from its words and clues, blending in the
+ * average solve time once enough players have solved it
+ */
+export function estimateDifficulty(
+  gameInfo: GameInfo,
+  solveStats?: { solves: number; totalSeconds: number }
+): PuzzleDifficulty {
+  const factors = measureFactors(gameInfo);
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [factor, weight] of Object.entries(WEIGHTS) as [keyof typeof WEIGHTS, number][]) {
+    if (factors[factor] === undefined) continue;
+    weighted += factors[factor]! * weight;
+    totalWeight += weight;
+  }
+  let score = weighted / totalWeight;
+
+  const solves = solveStats?.solves || 0;
+  if (solveStats && solves >= MIN_SOLVES) {
+    const secondsPerRung = solveStats.totalSeconds / solves / gameInfo.words.length;
+    factors.solveTime = clamp(
+      (secondsPerRung - FAST_SECONDS_PER_RUNG) / (SLOW_SECONDS_PER_RUNG - FAST_SECONDS_PER_RUNG)
+    );
+    const solveWeight = MAX_SOLVE_WEIGHT * Math.min(1, solves / FULL_WEIGHT_SOLVES);
+    score = score * (1 - solveWeight) + factors.solveTime * solveWeight;
+  }
+
+  const rounded = Math.round(score * 100);
+  const level = LEVEL_THRESHOLDS.find(([limit]) => rounded < limit)?.[1] || 'hard';
+  return { level, score: rounded, factors, solves: solves >= MIN_SOLVES ? solves : 0 };
+}
+
+/**
+ * Rate a stored puzzle's latest revision, using only that revision's solves
+ */
+export function ratePuzzle(puzzle: StoredPuzzle): PuzzleDifficulty {
+  const revisions = getRevisions(puzzle);
+  const latest = revisions[revisions.length - 1].revision;
+  return estimateDifficulty(pickGameInfo(puzzle), puzzle.solveStats?.byRevision[latest]);
+}
+
+/**
+ * The puzzle with its stored rating, rating puzzles saved before ratings existed
+ */
+export function withDifficulty(puzzle: StoredPuzzle): StoredPuzzle {
+  return puzzle.difficulty ? puzzle : { ...puzzle, difficulty: ratePuzzle(puzzle) };
+}
@@ -0,0 +1,440 @@
+import { GameInfo, LadderRules, LanguageId } from '@/types/game';
+import { isRecord, validateGameInfo } from './puzzleValidation';
+import { isLanguageId, normalizeWord } from './languages';
+import { isLadderStep, LADDER_RULE_STEPS, LADDER_RULES } from './wordLadder';
+import { gameInfoToIpuz, ipuzToGameInfo } from './ipuz';
+
+export type PuzzleFileFormat = 'json' | 'csv' | 'text' | 'ipuz';
+
+export const PUZZLE_JSON_FORMAT = 'crossclimb';
+export const PUZZLE_JSON_VERSION = 1;
+
+/** Import problem; `line` is 1-based and present whenever it can be pinned down */
+export interface PuzzleImportError {
+  line?: number;
+  message: string;
+}
+
+export interface PuzzleImportResult {
+  /** Parsed puzzle, possibly invalid; null if the file could not be read at all */
+  draft: GameInfo | null;
+  /** Only set when the draft also passes validation */
+  gameInfo: GameInfo | null;
+  errors: PuzzleImportError[];
+}
+
+const CSV_KINDS = ['title', 'author', 'rules', 'dictionary', 'language', 'top', 'middle', 'bottom'];
+const TEXT_HEADERS: Record<string, 'title' | 'author' | 'dictionary' | 'edgeHint'> = {
+  title: 'title',
+  author: 'author',
+  dictionary: 'dictionary',
+  'edge hint': 'edgeHint',
+};
+
+/**
+ * Validate a parsed draft and attach each field error to the line it came from
+ */
+function finishImport(draft: GameInfo, fieldLines: Record<string, number>): PuzzleImportResult {
+  const validation = validateGameInfo(draft);
+  if (validation.valid) {
+    return { draft, gameInfo: validation.gameInfo, errors: [] };
+  }
+
+  // Point ladder errors at the first row that does not follow from the one above.
+  // Drafts come straight from a file, so only do so when the ladder has the right shape.
+  const language = isLanguageId(draft.language) ? draft.language : undefined;
+  const edgeWords: unknown = draft.edgeWords;
+  const words: unknown = draft.words;
+  const rules = LADDER_RULES.includes(draft.rules as LadderRules) ? (draft.rules as LadderRules) : 'classic';
+  let ladder: unknown[] = [];
+  let ladderFields: string[] = [];
+  if (Array.isArray(edgeWords) && Array.isArray(words)) {
+    ladder = [edgeWords[0], ...words.map((w) => (isRecord(w) ? w.correct : undefined)), edgeWords[1]].map((word) =>
+      typeof word === 'string' ? normalizeWord(word.trim(), language) : word
+    );
+    ladderFields = ['edgeWords.0', ...words.map((_, i) => `words.${i}.correct`), 'edgeWords.1'];
+  }
+  const brokenAt = ladder.findIndex((word, i) => {
+    const previous = ladder[i - 1];
+    return i > 0 && typeof word === 'string' && typeof previous === 'string' && !isLadderStep(previous, word, rules);
+  });
+
+  const errors = validation.errors.map((e) => {
+    if (e.field === 'ladder' && brokenAt > 0) {
+      const message =
+        rules === 'classic'
+          ? `"${ladder[brokenAt]}" does not differ by exactly one letter from "${ladder[brokenAt - 1]}"`
+          : `"${ladder[brokenAt - 1]}" to "${ladder[brokenAt]}" does not ${LADDER_RULE_STEPS[rules]}`;
+      const line = fieldLines[ladderFields[brokenAt]];
+      return line ? { line, message } : { message };
+    }
+    // Fall back to the parent field, e.g. `words.2` for `words.2.hint`
+    const line = fieldLines[e.field] ?? fieldLines[e.field.split('.').slice(0, 2).join('.')];
+    return line ? { line, message: e.message } : { message: e.field ? `${e.field}: ${e.message}` : e.message };
+  });
+  return { draft, gameInfo: null, errors };
+}
+
+function failedImport(errors: PuzzleImportError[]): PuzzleImportResult {
+  return { draft: null, gameInfo: null, errors };
+}
+
+/**
+ * Combine syntax errors found while parsing with validation of the draft
+ */
+function finishImportWithErrors(
+  draft: GameInfo,
+  fieldLines: Record<string, number>,
+  parseErrors: PuzzleImportError[]
+): PuzzleImportResult {
+  const result = finishImport(draft, fieldLines);
+  if (parseErrors.length === 0) return result;
+
+  const errors = [...parseErrors, ...result.errors].sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity));
+  return { draft, gameInfo: null, errors };
+}
+
+/**
+ * Guess the format from a file name, falling back to the content
+ */
+export function detectPuzzleFormat(content: string, fileName?: string): PuzzleFileFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'ipuz') return 'ipuz';
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'txt') return 'text';
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{')) return trimmed.includes('http://ipuz.org/') ? 'ipuz' : 'json';
+  if (/^(kind,|title,|top,)/i.test(trimmed)) return 'csv';
+  return 'text';
+}
+
+// JSON
+
+/**
+ * Versioned JSON: { format: "crossclimb", version: 1, puzzle: GameInfo }
+ */
+export function exportPuzzleJson(gameInfo: GameInfo): string {
+  return JSON.stringify(
+    { format: PUZZLE_JSON_FORMAT, version: PUZZLE_JSON_VERSION, puzzle: gameInfo },
+    null,
+    2
+  );
+}
+
+export function importPuzzleJson(content: string): PuzzleImportResult {
+  let data;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    // V8 reports "... in JSON at position N"; turn that into a line number
+    const position = Number((error as Error).message.match(/position (\d+)/)?.[1]);
+    const line = Number.isFinite(position) ? content.slice(0, position).split('\n').length : undefined;
+    return failedImport([{ line, message: 'File is not valid JSON' }]);
+  }
+
+  if (!isRecord(data) || data.format !== PUZZLE_JSON_FORMAT || !isRecord(data.puzzle)) {
+    return failedImport([{ message: `Expected a "${PUZZLE_JSON_FORMAT}" puzzle file` }]);
+  }
+  if (data.version !== PUZZLE_JSON_VERSION) {
+    return failedImport([{ message: `Unsupported puzzle file version ${data.version}` }]);
+  }
+
+  // Map field paths to the line of their key, e.g. `"hint": "..."` of the third word
+  const fieldLines: Record<string, number> = {};
+  const lines = content.split('\n');
+  let wordIndex = -1;
+  let edgeWordsLine: number | undefined;
+  lines.forEach((line, i) => {
+    const key = line.match(/^\s*"(\w+)"\s*:/)?.[1];
+    if (key === 'correct') wordIndex++;
+    if (key === 'correct' || (key === 'hint' && wordIndex >= 0)) {
+      fieldLines[`words.${wordIndex}.${key}`] = i + 1;
+    } else if (key === 'edgeWords') {
+      edgeWordsLine = i + 1;
+      fieldLines.edgeWords = i + 1;
+    } else if (key && ['title', 'author', 'edgeHint', 'words', 'rules', 'dictionary', 'language'].includes(key)) {
+      fieldLines[key] = i + 1;
+    }
+  });
+  if (edgeWordsLine) {
+    fieldLines['edgeWords.0'] = edgeWordsLine;
+    fieldLines['edgeWords.1'] = edgeWordsLine;
+  }
+
+  return finishImport(data.puzzle as unknown as GameInfo, fieldLines);
+}
+
+// CSV
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV with a `kind` column marking title/author/rules/dictionary/language/edge rows:
+ *   kind,word,hint
+ *   top,BARE,<edge hint>
+ *   middle,CARE,<hint>
+ *   bottom,FOOT,
+ */
+export function exportPuzzleCsv(gameInfo: GameInfo): string {
+  const rows: string[][] = [
+    ['kind', 'word', 'hint'],
+    ['title', '', gameInfo.title],
+  ];
+  if (gameInfo.author) rows.push(['author', '', gameInfo.author]);
+  if (gameInfo.rules) rows.push(['rules', '', gameInfo.rules]);
+  if (gameInfo.dictionary) rows.push(['dictionary', '', gameInfo.dictionary]);
+  if (gameInfo.language) rows.push(['language', '', gameInfo.language]);
+  rows.push(['top', gameInfo.edgeWords[0], gameInfo.edgeHint]);
+  for (const word of gameInfo.words) {
+    rows.push(['middle', word.correct, word.hint]);
+  }
+  rows.push(['bottom', gameInfo.edgeWords[1], '']);
+
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Split CSV into records, remembering the line each record starts on
+ */
+function parseCsv(content: string): Array<{ line: number; cells: string[] }> {
+  const records: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      cells.push(cell);
+      records.push({ line: recordLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || cells.length > 0) {
+    cells.push(cell);
+    records.push({ line: recordLine, cells });
+  }
+
+  return records.filter((r) => r.cells.some((c) => c.trim()));
+}
+
+export function importPuzzleCsv(content: string): PuzzleImportResult {
+  const errors: PuzzleImportError[] = [];
+  const fieldLines: Record<string, number> = {};
+  const draft: GameInfo = { title: '', words: [], edgeWords: ['', ''], edgeHint: '' };
+
+  for (const { line, cells } of parseCsv(content)) {
+    const kind = cells[0].trim().toLowerCase();
+    const word = (cells[1] || '').trim();
+    const hint = (cells[2] || '').trim();
+
+    // Optional header row
+    if (kind === 'kind' && line === 1) continue;
+
+    if (!CSV_KINDS.includes(kind)) {
+      errors.push({ line, message: `Unknown row kind "${cells[0]}" (expected ${CSV_KINDS.join(', ')})` });
+      continue;
+    }
+    if (cells.length > 3) {
+      errors.push({ line, message: 'Rows must have at most 3 columns: kind, word, hint' });
+      continue;
+    }
+
+    if (kind === 'title' || kind === 'author' || kind === 'dictionary') {
+      draft[kind] = hint || word;
+      fieldLines[kind] = line;
+    } else if (kind === 'rules') {
+      draft.rules = (hint || word) as LadderRules;
+      fieldLines.rules = line;
+    } else if (kind === 'language') {
+      draft.language = (hint || word) as LanguageId;
+      fieldLines.language = line;
+    } else if (kind === 'top') {
+      draft.edgeWords[0] = word;
+      draft.edgeHint = hint || draft.edgeHint;
+      fieldLines['edgeWords.0'] = line;
+      fieldLines.edgeHint = line;
+    } else if (kind === 'bottom') {
+      draft.edgeWords[1] = word;
+      // Accept the edge hint on either edge row
+      if (hint && !draft.edgeHint) {
+        draft.edgeHint = hint;
+        fieldLines.edgeHint = line;
+      }
+      fieldLines['edgeWords.1'] = line;
+    } else {
+      const index = draft.words.length;
+      draft.words.push({ correct: word, hint });
+      fieldLines[`words.${index}`] = line;
+      fieldLines[`words.${index}.correct`] = line;
+      fieldLines[`words.${index}.hint`] = line;
+    }
+  }
+
+  return finishImportWithErrors(draft, fieldLines, errors);
+}
+
+// Plain text
+
+/**
+ * Human-friendly text: header lines, then the ladder top to bottom with
+ * `WORD - hint` for middle rows and bare words for the edges
+ */
+export function exportPuzzleText(gameInfo: GameInfo): string {
+  const lines = [`Title: ${gameInfo.title}`];
+  if (gameInfo.author) lines.push(`Author: ${gameInfo.author}`);
+  if (gameInfo.rules) lines.push(`Rules: ${gameInfo.rules}`);
+  if (gameInfo.dictionary) lines.push(`Dictionary: ${gameInfo.dictionary}`);
+  if (gameInfo.language) lines.push(`Language: ${gameInfo.language}`);
+  lines.push(`Edge hint: ${gameInfo.edgeHint}`, '', gameInfo.edgeWords[0]);
+  for (const word of gameInfo.words) {
+    lines.push(`${word.correct} - ${word.hint}`);
+  }
+  lines.push(gameInfo.edgeWords[1]);
+  return lines.join('\n') + '\n';
+}
+
+export function importPuzzleText(content: string): PuzzleImportResult {
+  const errors: PuzzleImportError[] = [];
+  const fieldLines: Record<string, number> = {};
+  const draft: GameInfo = { title: '', words: [], edgeWords: ['', ''], edgeHint: '' };
+  const ladder: Array<{ line: number; word: string; hint?: string }> = [];
+
+  content.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    const text = raw.trim();
+    if (!text || text.startsWith('#')) return;
+
+    const header = text.match(/^([A-Za-z ]+):\s*(.*)$/);
+    const headerField = header && TEXT_HEADERS[header[1].trim().toLowerCase()];
+    if (header && header[1].trim().toLowerCase() === 'rules') {
+      draft.rules = header[2].trim() as LadderRules;
+      fieldLines.rules = line;
+      return;
+    }
+    if (header && header[1].trim().toLowerCase() === 'language') {
+      draft.language = header[2].trim() as LanguageId;
+      fieldLines.language = line;
+      return;
+    }
+    if (headerField) {
+      draft[headerField] = header[2].trim();
+      fieldLines[headerField] = line;
+      return;
+    }
+
+    const row = text.match(/^(\S+)(?:\s+-\s+(.*))?$/);
+    if (!row) {
+      errors.push({ line, message: 'Expected "WORD" or "WORD - hint"' });
+      return;
+    }
+    ladder.push({ line, word: row[1], hint: row[2]?.trim() });
+  });
+
+  if (ladder.length > 0) {
+    const top = ladder[0];
+    const bottom = ladder[ladder.length - 1];
+    draft.edgeWords = [top.word, ladder.length > 1 ? bottom.word : ''];
+    fieldLines['edgeWords.0'] = top.line;
+    fieldLines['edgeWords.1'] = bottom.line;
+
+    ladder.slice(1, -1).forEach((row, index) => {
+      draft.words.push({ correct: row.word, hint: row.hint || '' });
+      fieldLines[`words.${index}`] = row.line;
+      fieldLines[`words.${index}.correct`] = row.line;
+      fieldLines[`words.${index}.hint`] = row.line;
+    });
+
+    for (const edge of [top, bottom]) {
+      if (edge.hint) {
+        errors.push({ line: edge.line, message: 'Edge rows take no hint; use an "Edge hint:" line instead' });
+      }
+    }
+  }
+
+  return finishImportWithErrors(draft, fieldLines, errors);
+}
+
+// ipuz
+
+export function exportPuzzleIpuz(gameInfo: GameInfo): string {
+  return JSON.stringify(gameInfoToIpuz(gameInfo), null, 2);
+}
+
+export function importPuzzleIpuz(content: string): PuzzleImportResult {
+  let draft: GameInfo;
+  try {
+    draft = ipuzToGameInfo(JSON.parse(content));
+  } catch (error) {
+    const message = error instanceof SyntaxError ? 'File is not valid JSON' : (error as Error).message;
+    return failedImport([{ message }]);
+  }
+  return finishImport(draft, {});
+}
+
+// Dispatch
+
+function importPuzzleAs(content: string, format: PuzzleFileFormat): PuzzleImportResult {
+  switch (format) {
+    case 'json':
+      return importPuzzleJson(content);
+    case 'csv':
+      return importPuzzleCsv(content);
+    case 'text':
+      return importPuzzleText(content);
+    case 'ipuz':
+      return importPuzzleIpuz(content);
+  }
+}
+
+/**
+ * Parse and validate a puzzle file; never throws, whatever the file holds
+ */
+export function importPuzzle(content: string, format: PuzzleFileFormat): PuzzleImportResult {
+  try {
+    return importPuzzleAs(content, format);
+  } catch (error) {
+    console.error('Error importing puzzle:', error);
+    return failedImport([{ message: 'This file does not contain a puzzle that can be imported' }]);
+  }
+}
+
+export function exportPuzzle(gameInfo: GameInfo, format: PuzzleFileFormat): string {
+  switch (format) {
+    case 'json':
+      return exportPuzzleJson(gameInfo);
+    case 'csv':
+      return exportPuzzleCsv(gameInfo);
+    case 'text':
+      return exportPuzzleText(gameInfo);
+    case 'ipuz':
+      return exportPuzzleIpuz(gameInfo);
+  }
+}
@@ -0,0 +1,103 @@
+import { DifficultyLevel, PuzzleSort, PuzzleSummary } from '@/types/game';
+import { PuzzleRecord } from './puzzleStorage';
+import { DIFFICULTY_LEVELS, withDifficulty } from './puzzleDifficulty';
+
+export const PUZZLE_SORTS: PuzzleSort[] = ['newest', 'most-played', 'fastest'];
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 50;
+
+export interface PuzzleListQuery {
+  page: number;
+  pageSize: number;
+  sort: PuzzleSort;
+  wordLength?: number;
+  rungs?: number;
+  author?: string;
+  difficulty?: DifficultyLevel;
+  q?: string;
+}
+
+export interface PuzzleListResult {
+  puzzles: PuzzleSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Listing row for a stored puzzle (always the latest revision)
+ */
+export function summarizePuzzle({ id, puzzle }: PuzzleRecord): PuzzleSummary {
+  const plays = puzzle.solveStats?.solves || 0;
+  return {
+    id,
+    title: puzzle.title,
+    author: puzzle.author,
+    wordLength: puzzle.edgeWords[0].length,
+    rungs: puzzle.words.length,
+    createdAt: puzzle.createdAt,
+    plays,
+    averageSeconds: plays > 0 ? Math.round(puzzle.solveStats!.totalSeconds / plays) : null,
+    difficulty: withDifficulty(puzzle).difficulty!.level,
+  };
+}
+
+const comparators: Record<PuzzleSort, (a: PuzzleSummary, b: PuzzleSummary) => number> = {
+  newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  'most-played': (a, b) => b.plays - a.plays || b.createdAt.localeCompare(a.createdAt),
+  // Puzzles nobody has solved yet go last
+  fastest: (a, b) =>
+    (a.averageSeconds ?? Infinity) - (b.averageSeconds ?? Infinity) || b.createdAt.localeCompare(a.createdAt),
+};
+
+/**
+ * Filter, sort and paginate listed puzzles
+ */
+export function queryPuzzles(records: PuzzleRecord[], query: PuzzleListQuery): PuzzleListResult {
+  const author = query.author?.trim().toLowerCase();
+  const text = query.q?.trim().toLowerCase();
+
+  const matches = records
+    .filter(({ puzzle }) => !puzzle.unlisted)
+    .map(summarizePuzzle)
+    .filter(
+      (p) =>
+        (query.wordLength === undefined || p.wordLength === query.wordLength) &&
+        (query.rungs === undefined || p.rungs === query.rungs) &&
+        (query.difficulty === undefined || p.difficulty === query.difficulty) &&
+        (!author || (p.author || '').toLowerCase().includes(author)) &&
+        (!text || p.title.toLowerCase().includes(text))
+    )
+    .sort(comparators[query.sort]);
+
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    puzzles: matches.slice(start, start + query.pageSize),
+    total: matches.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+}
+
+/**
+ * Read listing options from URL search params, clamping anything out of range
+ */
+export function parsePuzzleListQuery(searchParams: URLSearchParams): PuzzleListQuery {
+  const integer = (name: string): number | undefined => {
+    const value = Number(searchParams.get(name));
+    return searchParams.get(name) && Number.isInteger(value) && value > 0 ? value : undefined;
+  };
+  const sort = searchParams.get('sort') as PuzzleSort;
+  const difficulty = searchParams.get('difficulty') as DifficultyLevel;
+
+  return {
+    page: integer('page') || 1,
+    pageSize: Math.min(integer('pageSize') || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+    sort: PUZZLE_SORTS.includes(sort) ? sort : 'newest',
+    wordLength: integer('wordLength'),
+    rungs: integer('rungs'),
+    author: searchParams.get('author') || undefined,
+    difficulty: DIFFICULTY_LEVELS.includes(difficulty) ? difficulty : undefined,
+    q: searchParams.get('q') || undefined,
+  };
+}
@@ -0,0 +1,106 @@
+import { GameInfo } from '@/types/game';
+import { saveOwnedPuzzle } from './ownedPuzzles';
+
+const LOCAL_PUZZLE_PREFIX = 'puzzle-';
+const MIGRATED_PUZZLES_KEY = 'crossclimb-migrated-puzzles';
+
+// Ids this browser no longer needs to upload, with when that was settled
+function readMigratedPuzzles(): Record<string, string> {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(MIGRATED_PUZZLES_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Record that the server has a puzzle, so this browser never uploads its
+ * local copy again, even if the puzzle is later deleted
+ */
+export function markPuzzleMigrated(id: string): void {
+  if (typeof window === 'undefined') return;
+  const migrated = readMigratedPuzzles();
+  if (migrated[id]) return;
+  migrated[id] = new Date().toISOString();
+  localStorage.setItem(MIGRATED_PUZZLES_KEY, JSON.stringify(migrated));
+}
+
+/**
+ * Upload a puzzle that only exists in this browser's localStorage so its
+ * share link works for everyone again. Each puzzle is uploaded at most once.
+ * Returns true if the server now has it.
+ */
+export async function migrateLocalPuzzle(id: string, gameInfo: GameInfo): Promise<boolean> {
+  if (readMigratedPuzzles()[id]) return false;
+
+  try {
+    const response = await fetch('/api/puzzle', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id, gameInfo }),
+    });
+
+    // The uploading browser is the creator, so it gets to keep the edit token
+    if (response.ok) {
+      const data = await response.json();
+      if (data.editToken) {
+        saveOwnedPuzzle(id, gameInfo.title, data.editToken);
+      }
+      markPuzzleMigrated(id);
+      return true;
+    }
+
+    // 409 means the server already has a puzzle under this id
+    if (response.status === 409) {
+      markPuzzleMigrated(id);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    console.error(`Error migrating local puzzle ${id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Find every `puzzle-<id>` entry in localStorage that hasn't been settled yet
+ * and upload it if the server doesn't know about it. Puzzles already checked
+ * are skipped without a request. Returns the ids that were migrated.
+ */
+export async function migrateLocalPuzzles(): Promise<string[]> {
+  if (typeof window === 'undefined') return [];
+
+  const settled = readMigratedPuzzles();
+  const ids: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(LOCAL_PUZZLE_PREFIX) && !settled[key.slice(LOCAL_PUZZLE_PREFIX.length)]) {
+      ids.push(key.slice(LOCAL_PUZZLE_PREFIX.length));
+    }
+  }
+
+  const migrated: string[] = [];
+  for (const id of ids) {
+    try {
+      const existing = await fetch(`/api/puzzle?id=${encodeURIComponent(id)}`);
+      if (existing.ok) {
+        markPuzzleMigrated(id);
+        continue;
+      }
+      // Other failures are retried on a later visit
+      if (existing.status !== 404) continue;
+
+      const localPuzzle = localStorage.getItem(`${LOCAL_PUZZLE_PREFIX}${id}`);
+      if (!localPuzzle) continue;
+
+      if (await migrateLocalPuzzle(id, JSON.parse(localPuzzle))) {
+        migrated.push(id);
+      }
+    } catch (error) {
+      console.error(`Error checking local puzzle ${id}:`, error);
+    }
+  }
+
+  return migrated;
+}
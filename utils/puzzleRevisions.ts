@@ -0,0 +1,137 @@
+import {
+  GameInfo,
+  PublicPuzzle,
+  PuzzleChange,
+  PuzzleRevision,
+  SolveStats,
+  StoredPuzzle,
+} from '@/types/game';
+import { pickGameInfo } from './puzzleValidation';
+
+/**
+ * Full revision history, treating puzzles stored before revisions existed
+ * as having a single revision
+ */
+export function getRevisions(puzzle: StoredPuzzle): PuzzleRevision[] {
+  if (puzzle.revisions && puzzle.revisions.length > 0) {
+    return puzzle.revisions;
+  }
+  return [{ revision: 1, gameInfo: pickGameInfo(puzzle), createdAt: puzzle.createdAt }];
+}
+
+/**
+ * Look up one revision by number (1-based)
+ */
+export function getRevision(puzzle: StoredPuzzle, revision: number): PuzzleRevision | null {
+  return getRevisions(puzzle).find((r) => r.revision === revision) || null;
+}
+
+/**
+ * Start a puzzle's history with its first published version
+ */
+export function createStoredPuzzle(gameInfo: GameInfo, editTokenHash: string): StoredPuzzle {
+  const createdAt = new Date().toISOString();
+  return {
+    ...gameInfo,
+    createdAt,
+    editTokenHash,
+    revisions: [{ revision: 1, gameInfo, createdAt, editor: gameInfo.author }],
+  };
+}
+
+/**
+ * Return a copy of the puzzle with `gameInfo` appended as the newest revision
+ */
+export function appendRevision(puzzle: StoredPuzzle, gameInfo: GameInfo, editor?: string): StoredPuzzle {
+  const revisions = getRevisions(puzzle);
+  const updatedAt = new Date().toISOString();
+  const next: PuzzleRevision = {
+    revision: revisions[revisions.length - 1].revision + 1,
+    gameInfo,
+    createdAt: updatedAt,
+    editor: editor || gameInfo.author,
+  };
+
+  return {
+    ...gameInfo,
+    createdAt: puzzle.createdAt,
+    updatedAt,
+    editTokenHash: puzzle.editTokenHash,
+    revisions: [...revisions, next],
+    solveStats: puzzle.solveStats,
+  };
+}
+
+/**
+ * Public view of a puzzle at a given revision (latest by default)
+ */
+export function toPublicPuzzle(puzzle: StoredPuzzle, revision?: number): PublicPuzzle | null {
+  const revisions = getRevisions(puzzle);
+  const latest = revisions[revisions.length - 1];
+  const selected = revision === undefined ? latest : getRevision(puzzle, revision);
+  if (!selected) return null;
+
+  return {
+    ...selected.gameInfo,
+    createdAt: puzzle.createdAt,
+    updatedAt: selected.revision === 1 ? undefined : selected.createdAt,
+    revision: selected.revision,
+    revisionCount: latest.revision,
+    // The rating describes the latest revision only
+    difficulty: selected === latest ? puzzle.difficulty : undefined,
+  };
+}
+
+/**
+ * List the fields that differ between two versions of a puzzle,
+ * using the same field paths as validation errors
+ */
+export function diffGameInfo(before: GameInfo, after: GameInfo): PuzzleChange[] {
+  const flatten = (info: GameInfo): Record<string, string | undefined> => {
+    const fields: Record<string, string | undefined> = {
+      title: info.title,
+      author: info.author,
+      'edgeWords.0': info.edgeWords[0],
+      'edgeWords.1': info.edgeWords[1],
+      edgeHint: info.edgeHint,
+      rules: info.rules,
+      dictionary: info.dictionary,
+      language: info.language,
+    };
+    info.words.forEach((word, i) => {
+      fields[`words.${i}.correct`] = word.correct;
+      fields[`words.${i}.hint`] = word.hint;
+    });
+    return fields;
+  };
+
+  const a = flatten(before);
+  const b = flatten(after);
+  const changes: PuzzleChange[] = [];
+  for (const field of Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))) {
+    if (a[field] !== b[field]) {
+      changes.push({ field, before: a[field], after: b[field] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Add one solve to the puzzle's stats
+ */
+export function recordSolve(stats: SolveStats | undefined, revision: number, seconds: number): SolveStats {
+  const current = stats || { solves: 0, totalSeconds: 0, byRevision: {} };
+  const forRevision = current.byRevision[revision] || { solves: 0, totalSeconds: 0 };
+
+  return {
+    solves: current.solves + 1,
+    totalSeconds: current.totalSeconds + seconds,
+    byRevision: {
+      ...current.byRevision,
+      [revision]: {
+        solves: forRevision.solves + 1,
+        totalSeconds: forRevision.totalSeconds + seconds,
+      },
+    },
+  };
+}
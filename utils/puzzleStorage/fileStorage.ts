@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { StoredPuzzle } from '@/types/game';
+import { KeyedQueue } from './keyedQueue';
+import { PuzzleRecord, PuzzleStorage } from './types';
+
+/**
+ * Stores each puzzle as `<directory>/<id>.json` and each named document as
+ * `<directory>/_documents/<name>.json`.
+ * Writes go through a temp file + rename so readers never see half a puzzle,
+ * and writes to the same file run one at a time so the last one wins.
+ */
+export class FilePuzzleStorage implements PuzzleStorage {
+  private readonly writes = new KeyedQueue();
+
+  constructor(private readonly directory: string) {}
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private documentPath(name: string): string {
+    return path.join(this.directory, '_documents', `${name}.json`);
+  }
+
+  private async readJson<T>(file: string): Promise<T | null> {
+    try {
+      const content = await fs.readFile(file, 'utf-8');
+      return JSON.parse(content) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async replaceFile(target: string, value: unknown): Promise<void> {
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const tempFile = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(value), 'utf-8');
+    await fs.rename(tempFile, target);
+  }
+
+  private writeJson(target: string, value: unknown): Promise<void> {
+    return this.writes.run(target, () => this.replaceFile(target, value));
+  }
+
+  // Runs in the same queue as plain writes, so none lands between the read and the write
+  private updateJson<T>(target: string, change: (value: T | null) => T | null): Promise<T | null> {
+    return this.writes.run(target, async () => {
+      const updated = change(await this.readJson<T>(target));
+      if (updated !== null) await this.replaceFile(target, updated);
+      return updated;
+    });
+  }
+
+  async get(id: string): Promise<StoredPuzzle | null> {
+    return this.readJson<StoredPuzzle>(this.filePath(id));
+  }
+
+  async put(id: string, puzzle: StoredPuzzle): Promise<void> {
+    await this.writeJson(this.filePath(id), puzzle);
+  }
+
+  update(id: string, change: (puzzle: StoredPuzzle | null) => StoredPuzzle | null): Promise<StoredPuzzle | null> {
+    return this.updateJson(this.filePath(id), change);
+  }
+
+  async list(): Promise<PuzzleRecord[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: PuzzleRecord[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      const id = entry.slice(0, -'.json'.length);
+      const puzzle = await this.get(id);
+      if (puzzle) {
+        records.push({ id, puzzle });
+      }
+    }
+    return records;
+  }
+
+  // Queued with writes so an update in flight can't bring the puzzle back
+  delete(id: string): Promise<boolean> {
+    const target = this.filePath(id);
+    return this.writes.run(target, async () => {
+      try {
+        await fs.unlink(target);
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return false;
+        }
+        throw error;
+      }
+    });
+  }
+
+  async getDocument<T>(name: string): Promise<T | null> {
+    return this.readJson<T>(this.documentPath(name));
+  }
+
+  async putDocument(name: string, value: unknown): Promise<void> {
+    await this.writeJson(this.documentPath(name), value);
+  }
+
+  async updateDocument<T>(name: string, change: (value: T | null) => T): Promise<T> {
+    return (await this.updateJson<T>(this.documentPath(name), change)) as T;
+  }
+}
@@ -0,0 +1,47 @@
+import * as path from 'path';
+import { FilePuzzleStorage } from './fileStorage';
+import { MemoryPuzzleStorage } from './memoryStorage';
+import { SqlitePuzzleStorage } from './sqliteStorage';
+import { PuzzleStorage } from './types';
+
+export type { PuzzleStorage, PuzzleRecord } from './types';
+export { isValidPuzzleId } from './types';
+
+export type PuzzleStorageBackend = 'file' | 'sqlite' | 'memory';
+
+// One storage instance per server process
+let storage: PuzzleStorage | null = null;
+
+/**
+ * Create a storage backend from environment configuration:
+ * - PUZZLE_STORAGE: 'file' (default), 'sqlite' or 'memory'
+ * - PUZZLE_STORAGE_PATH: directory (file) or database file (sqlite),
+ *   defaults to `.data/puzzles` / `.data/puzzles.sqlite`
+ */
+export function createPuzzleStorage(
+  backend: string = process.env.PUZZLE_STORAGE || 'file',
+  location: string | undefined = process.env.PUZZLE_STORAGE_PATH
+): PuzzleStorage {
+  const dataDir = path.join(process.cwd(), '.data');
+
+  switch (backend as PuzzleStorageBackend) {
+    case 'file':
+      return new FilePuzzleStorage(location || path.join(dataDir, 'puzzles'));
+    case 'sqlite':
+      return new SqlitePuzzleStorage(location || path.join(dataDir, 'puzzles.sqlite'));
+    case 'memory':
+      return new MemoryPuzzleStorage();
+    default:
+      throw new Error(`Unknown PUZZLE_STORAGE backend "${backend}"`);
+  }
+}
+
+/**
+ * Get the shared storage backend for API routes
+ */
+export function getPuzzleStorage(): PuzzleStorage {
+  if (!storage) {
+    storage = createPuzzleStorage();
+  }
+  return storage;
+}
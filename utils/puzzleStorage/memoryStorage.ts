@@ -0,0 +1,51 @@
+import { StoredPuzzle } from '@/types/game';
+import { PuzzleRecord, PuzzleStorage } from './types';
+
+/**
+ * Non-durable backend, useful for local development and tests.
+ * Puzzles are lost whenever the server process restarts.
+ */
+export class MemoryPuzzleStorage implements PuzzleStorage {
+  private puzzles = new Map<string, StoredPuzzle>();
+  private documents = new Map<string, string>();
+
+  async get(id: string): Promise<StoredPuzzle | null> {
+    return this.puzzles.get(id) ?? null;
+  }
+
+  async put(id: string, puzzle: StoredPuzzle): Promise<void> {
+    this.puzzles.set(id, puzzle);
+  }
+
+  // Nothing awaits between the read and the write, so no other update can run there
+  async update(id: string, change: (puzzle: StoredPuzzle | null) => StoredPuzzle | null): Promise<StoredPuzzle | null> {
+    const updated = change(this.puzzles.get(id) ?? null);
+    if (updated) this.puzzles.set(id, updated);
+    return updated;
+  }
+
+  async list(): Promise<PuzzleRecord[]> {
+    return Array.from(this.puzzles, ([id, puzzle]) => ({ id, puzzle }));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.puzzles.delete(id);
+  }
+
+  async getDocument<T>(name: string): Promise<T | null> {
+    const data = this.documents.get(name);
+    return data === undefined ? null : (JSON.parse(data) as T);
+  }
+
+  // Stored serialized so callers can't mutate the copy held here
+  async putDocument(name: string, value: unknown): Promise<void> {
+    this.documents.set(name, JSON.stringify(value));
+  }
+
+  async updateDocument<T>(name: string, change: (value: T | null) => T): Promise<T> {
+    const data = this.documents.get(name);
+    const updated = change(data === undefined ? null : (JSON.parse(data) as T));
+    this.documents.set(name, JSON.stringify(updated));
+    return updated;
+  }
+}
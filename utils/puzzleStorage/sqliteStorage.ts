@@ -0,0 +1,165 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import initSqlJs, { Database } from 'sql.js';
+import { StoredPuzzle } from '@/types/game';
+import { KeyedQueue } from './keyedQueue';
+import { PuzzleRecord, PuzzleStorage } from './types';
+
+/**
+ * Embedded SQLite backend (sql.js, so no native build step is needed).
+ * The whole database lives in memory and is flushed to `filePath` after
+ * every write. Flushes run one at a time, each exporting the database as it
+ * is when that flush starts, so the last one holds every write before it.
+ */
+export class SqlitePuzzleStorage implements PuzzleStorage {
+  private db: Promise<Database> | null = null;
+  private readonly flushes = new KeyedQueue();
+
+  constructor(private readonly filePath: string) {}
+
+  private open(): Promise<Database> {
+    if (!this.db) {
+      this.db = (async () => {
+        const SQL = await initSqlJs();
+        let db: Database;
+        try {
+          db = new SQL.Database(await fs.readFile(this.filePath));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw error;
+          }
+          db = new SQL.Database();
+        }
+        db.run(
+          `CREATE TABLE IF NOT EXISTS puzzles (
+            id TEXT PRIMARY KEY,
+            data TEXT NOT NULL,
+            created_at TEXT NOT NULL
+          )`
+        );
+        db.run(
+          `CREATE TABLE IF NOT EXISTS documents (
+            name TEXT PRIMARY KEY,
+            data TEXT NOT NULL
+          )`
+        );
+        return db;
+      })();
+      // Allow a retry on the next call if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private flush(db: Database): Promise<void> {
+    return this.flushes.run(this.filePath, async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempFile = `${this.filePath}.${randomUUID()}.tmp`;
+      await fs.writeFile(tempFile, db.export());
+      await fs.rename(tempFile, this.filePath);
+    });
+  }
+
+  // sql.js runs statements synchronously, so a read followed by a write with
+  // no await in between can't interleave with another request
+  private readData(db: Database, sql: string, key: string): string | null {
+    const statement = db.prepare(sql);
+    try {
+      statement.bind([key]);
+      return statement.step() ? (statement.get()[0] as string) : null;
+    } finally {
+      statement.free();
+    }
+  }
+
+  private readPuzzle(db: Database, id: string): StoredPuzzle | null {
+    const data = this.readData(db, 'SELECT data FROM puzzles WHERE id = ?', id);
+    return data === null ? null : (JSON.parse(data) as StoredPuzzle);
+  }
+
+  private writePuzzle(db: Database, id: string, puzzle: StoredPuzzle): void {
+    db.run(
+      `INSERT INTO puzzles (id, data, created_at) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data`,
+      [id, JSON.stringify(puzzle), puzzle.createdAt]
+    );
+  }
+
+  private readDocument<T>(db: Database, name: string): T | null {
+    const data = this.readData(db, 'SELECT data FROM documents WHERE name = ?', name);
+    return data === null ? null : (JSON.parse(data) as T);
+  }
+
+  private writeDocument(db: Database, name: string, value: unknown): void {
+    db.run(
+      `INSERT INTO documents (name, data) VALUES (?, ?)
+       ON CONFLICT(name) DO UPDATE SET data = excluded.data`,
+      [name, JSON.stringify(value)]
+    );
+  }
+
+  async get(id: string): Promise<StoredPuzzle | null> {
+    return this.readPuzzle(await this.open(), id);
+  }
+
+  async put(id: string, puzzle: StoredPuzzle): Promise<void> {
+    const db = await this.open();
+    this.writePuzzle(db, id, puzzle);
+    await this.flush(db);
+  }
+
+  async update(id: string, change: (puzzle: StoredPuzzle | null) => StoredPuzzle | null): Promise<StoredPuzzle | null> {
+    const db = await this.open();
+    const updated = change(this.readPuzzle(db, id));
+    if (!updated) return null;
+    this.writePuzzle(db, id, updated);
+    await this.flush(db);
+    return updated;
+  }
+
+  async list(): Promise<PuzzleRecord[]> {
+    const db = await this.open();
+    const records: PuzzleRecord[] = [];
+    const statement = db.prepare('SELECT id, data FROM puzzles ORDER BY created_at DESC');
+    try {
+      while (statement.step()) {
+        const [id, data] = statement.get() as [string, string];
+        records.push({ id, puzzle: JSON.parse(data) });
+      }
+    } finally {
+      statement.free();
+    }
+    return records;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const db = await this.open();
+    db.run('DELETE FROM puzzles WHERE id = ?', [id]);
+    const removed = db.getRowsModified() > 0;
+    if (removed) {
+      await this.flush(db);
+    }
+    return removed;
+  }
+
+  async getDocument<T>(name: string): Promise<T | null> {
+    return this.readDocument<T>(await this.open(), name);
+  }
+
+  async putDocument(name: string, value: unknown): Promise<void> {
+    const db = await this.open();
+    this.writeDocument(db, name, value);
+    await this.flush(db);
+  }
+
+  async updateDocument<T>(name: string, change: (value: T | null) => T): Promise<T> {
+    const db = await this.open();
+    const updated = change(this.readDocument<T>(db, name));
+    this.writeDocument(db, name, updated);
+    await this.flush(db);
+    return updated;
+  }
+}
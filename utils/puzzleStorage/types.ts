@@ -0,0 +1,37 @@
+import { StoredPuzzle } from '@/types/game';
+
+/** A stored puzzle together with its share id */
+export interface PuzzleRecord {
+  id: string;
+  puzzle: StoredPuzzle;
+}
+
+/**
+ * Persistence backend for published puzzles.
+ * Implementations must be safe to call from any API route.
+ */
+export interface PuzzleStorage {
+  get(id: string): Promise<StoredPuzzle | null>;
+  put(id: string, puzzle: StoredPuzzle): Promise<void>;
+  /**
+   * Read, change and write one puzzle with no other update to it in between.
+   * `change` gets the stored puzzle (null if missing) and returns the new one,
+   * or null to leave it as it is. Resolves to what was written, or null.
+   */
+  update(id: string, change: (puzzle: StoredPuzzle | null) => StoredPuzzle | null): Promise<StoredPuzzle | null>;
+  list(): Promise<PuzzleRecord[]>;
+  delete(id: string): Promise<boolean>;
+  /** Named JSON documents kept alongside the puzzles (e.g. the daily schedule) */
+  getDocument<T>(name: string): Promise<T | null>;
+  putDocument(name: string, value: unknown): Promise<void>;
+  /** Read, change and write one document with no other update to it in between */
+  updateDocument<T>(name: string, change: (value: T | null) => T): Promise<T>;
+}
+
+/**
+ * Puzzle ids end up in file names and SQL parameters, so keep them to the
+ * alphabet produced by generatePuzzleId (plus a little headroom).
+ */
+export function isValidPuzzleId(id: unknown): id is string {
+  return typeof id === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(id);
+}
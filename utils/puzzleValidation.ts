@@ -0,0 +1,230 @@
+import { GameInfo, LadderRules, LanguageId, PuzzleFieldError } from '@/types/game';
+import { validateWordLadder } from './gameGenerator';
+import { LADDER_RULE_STEPS, LADDER_RULES } from './wordLadder';
+import { DICTIONARIES, defaultDictionary, getDictionary, isDictionaryId } from './dictionaries';
+import { DEFAULT_LANGUAGE, LANGUAGES, describeAlphabet, getLanguage, isLanguageId, isLanguageWord, normalizeWord } from './languages';
+
+export const PUZZLE_LIMITS = {
+  maxPayloadBytes: 16 * 1024,
+  maxTitleLength: 100,
+  maxAuthorLength: 50,
+  maxHintLength: 200,
+  minWordLength: 2,
+  maxWordLength: 15,
+  maxMiddleWords: 20,
+};
+
+const GAME_INFO_FIELDS = ['title', 'author', 'words', 'edgeWords', 'edgeHint', 'unlisted', 'rules', 'dictionary', 'language'];
+const WORD_FIELDS = ['correct', 'hint'];
+
+export interface PuzzleValidationOptions {
+  /** When provided, every word must be accepted by this check, given the puzzle's dictionary */
+  isWord?: (word: string, dictionary: string) => boolean;
+  /** When provided, words this check rejects are refused as offensive */
+  isBlocked?: (word: string) => boolean;
+}
+
+export type PuzzleValidationResult =
+  | { valid: true; gameInfo: GameInfo; errors: [] }
+  | { valid: false; gameInfo: null; errors: PuzzleFieldError[] };
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Copy only the GameInfo fields out of a stored or decorated puzzle
+ */
+export function pickGameInfo(puzzle: GameInfo): GameInfo {
+  const gameInfo: Record<string, unknown> = {};
+  for (const key of GAME_INFO_FIELDS) {
+    if ((puzzle as unknown as Record<string, unknown>)[key] !== undefined) {
+      gameInfo[key] = (puzzle as unknown as Record<string, unknown>)[key];
+    }
+  }
+  return gameInfo as unknown as GameInfo;
+}
+
+/**
+ * Validate an untrusted GameInfo payload.
+ * Returns a normalized copy (trimmed, words spelled per the language) or a list of
+ * per-field errors that the editors can render next to their inputs.
+ */
+export function validateGameInfo(
+  input: unknown,
+  options: PuzzleValidationOptions = {}
+): PuzzleValidationResult {
+  const errors: PuzzleFieldError[] = [];
+  const addError = (field: string, message: string) => errors.push({ field, message });
+
+  if (!isRecord(input)) {
+    return { valid: false, gameInfo: null, errors: [{ field: '', message: 'Puzzle must be an object' }] };
+  }
+
+  for (const key of Object.keys(input)) {
+    if (!GAME_INFO_FIELDS.includes(key)) {
+      addError(key, `Unknown field "${key}"`);
+    }
+  }
+
+  // Title and author
+  const title = typeof input.title === 'string' ? input.title.trim() : '';
+  if (!title) {
+    addError('title', 'Please enter a title for your puzzle');
+  } else if (title.length > PUZZLE_LIMITS.maxTitleLength) {
+    addError('title', `Title must be at most ${PUZZLE_LIMITS.maxTitleLength} characters`);
+  }
+
+  let author: string | undefined;
+  if (input.author !== undefined && input.author !== null) {
+    if (typeof input.author !== 'string') {
+      addError('author', 'Author must be text');
+    } else if (input.author.trim().length > PUZZLE_LIMITS.maxAuthorLength) {
+      addError('author', `Author must be at most ${PUZZLE_LIMITS.maxAuthorLength} characters`);
+    } else {
+      author = input.author.trim() || undefined;
+    }
+  }
+
+  if (input.unlisted !== undefined && typeof input.unlisted !== 'boolean') {
+    addError('unlisted', 'Unlisted must be true or false');
+  }
+
+  let rules: LadderRules = 'classic';
+  if (input.rules !== undefined) {
+    if (!LADDER_RULES.includes(input.rules as LadderRules)) {
+      addError('rules', `Rules must be one of: ${LADDER_RULES.join(', ')}`);
+    } else {
+      rules = input.rules as LadderRules;
+    }
+  }
+
+  let language: LanguageId = DEFAULT_LANGUAGE;
+  if (input.language !== undefined) {
+    if (!isLanguageId(input.language)) {
+      addError('language', `Language must be one of: ${LANGUAGES.map((l) => l.id).join(', ')}`);
+    } else {
+      language = input.language;
+    }
+  }
+
+  let dictionary = defaultDictionary(language);
+  if (input.dictionary !== undefined) {
+    if (!isDictionaryId(input.dictionary)) {
+      addError('dictionary', `Dictionary must be one of: ${DICTIONARIES.map((d) => d.id).join(', ')}`);
+    } else if (getDictionary(input.dictionary)!.language !== language) {
+      addError('dictionary', `The ${input.dictionary} dictionary is not a ${getLanguage(language).name} word list`);
+    } else {
+      dictionary = input.dictionary;
+    }
+  }
+
+  // Shared checks for a single word
+  const checkWord = (field: string, value: unknown): string => {
+    if (typeof value !== 'string' || !value.trim()) {
+      addError(field, 'Word is required');
+      return '';
+    }
+    const word = normalizeWord(value.trim(), language);
+    if (!isLanguageWord(word, language)) {
+      addError(field, `Words may only contain letters ${describeAlphabet(language)}`);
+    } else if (word.length < PUZZLE_LIMITS.minWordLength || word.length > PUZZLE_LIMITS.maxWordLength) {
+      addError(
+        field,
+        `Words must be between ${PUZZLE_LIMITS.minWordLength} and ${PUZZLE_LIMITS.maxWordLength} letters`
+      );
+    } else if (options.isBlocked && options.isBlocked(word)) {
+      addError(field, `"${word}" isn't allowed in puzzles`);
+    } else if (options.isWord && !options.isWord(word, dictionary)) {
+      addError(field, `"${word}" is not in the dictionary`);
+    }
+    return word;
+  };
+
+  const checkHint = (field: string, value: unknown): string => {
+    const hint = typeof value === 'string' ? value.trim() : '';
+    if (!hint) {
+      addError(field, 'Hint is required');
+    } else if (hint.length > PUZZLE_LIMITS.maxHintLength) {
+      addError(field, `Hint must be at most ${PUZZLE_LIMITS.maxHintLength} characters`);
+    }
+    return hint;
+  };
+
+  // Edge words
+  let edgeWords: [string, string] = ['', ''];
+  if (!Array.isArray(input.edgeWords) || input.edgeWords.length !== 2) {
+    addError('edgeWords', 'Please enter both starting and ending words');
+  } else {
+    edgeWords = [checkWord('edgeWords.0', input.edgeWords[0]), checkWord('edgeWords.1', input.edgeWords[1])];
+  }
+  const edgeHint = checkHint('edgeHint', input.edgeHint);
+
+  // Middle words
+  const words: GameInfo['words'] = [];
+  if (!Array.isArray(input.words) || input.words.length === 0) {
+    addError('words', 'Please add at least one middle word');
+  } else if (input.words.length > PUZZLE_LIMITS.maxMiddleWords) {
+    addError('words', `A puzzle can have at most ${PUZZLE_LIMITS.maxMiddleWords} middle words`);
+  } else {
+    input.words.forEach((entry: unknown, i: number) => {
+      if (!isRecord(entry)) {
+        addError(`words.${i}`, 'Each middle word needs a word and a hint');
+        return;
+      }
+      for (const key of Object.keys(entry)) {
+        if (!WORD_FIELDS.includes(key)) {
+          addError(`words.${i}.${key}`, `Unknown field "${key}"`);
+        }
+      }
+      words.push({
+        correct: checkWord(`words.${i}.correct`, entry.correct),
+        hint: checkHint(`words.${i}.hint`, entry.hint),
+      });
+    });
+  }
+
+  // Lengths and ladder only make sense once every word is present
+  const allWords = [edgeWords[0], ...words.map((w) => w.correct), edgeWords[1]];
+  if (allWords.every((w) => w)) {
+    const wordLength = edgeWords[0].length;
+    // Adding or dropping letters is the one rule set where lengths vary
+    if (rules !== 'add-drop' && !allWords.every((w) => w.length === wordLength)) {
+      addError('words', 'All words must have the same length');
+    } else if (!validateWordLadder(allWords, rules)) {
+      addError(
+        'ladder',
+        rules === 'classic'
+          ? 'Invalid word ladder! Each word must differ by exactly one letter from the next word.'
+          : `Invalid word ladder! Each step must ${LADDER_RULE_STEPS[rules]}.`
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, gameInfo: null, errors };
+  }
+
+  const gameInfo: GameInfo = { title, author, words, edgeWords, edgeHint };
+  if (input.unlisted === true) {
+    gameInfo.unlisted = true;
+  }
+  if (rules !== 'classic') {
+    gameInfo.rules = rules;
+  }
+  if (dictionary !== defaultDictionary(language)) {
+    gameInfo.dictionary = dictionary;
+  }
+  if (language !== DEFAULT_LANGUAGE) {
+    gameInfo.language = language;
+  }
+
+  return { valid: true, gameInfo, errors: [] };
+}
+
+/**
+ * Pick the errors that belong to one field (exact path match)
+ */
+export function fieldErrors(errors: PuzzleFieldError[], field: string): string[] {
+  return errors.filter((e) => e.field === field).map((e) => e.message);
+}
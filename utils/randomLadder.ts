@@ -0,0 +1,148 @@
+import { DictionaryData, isDictionaryWord, wordAt, wordCount } from './dictionaryData';
+import { findCompoundPair, searchCompoundPairs } from './compoundIndex';
+import { DEFAULT_DICTIONARY, hasCompoundIndex } from './dictionaries';
+import { findAllShortestPaths } from './ladderPaths';
+import { rankByCommonness } from './wordCommonness';
+import { NeighborLookup } from './wordLadder';
+
+// Start words tried before giving up on a length/rung combination
+const MAX_ATTEMPTS = 60;
+// Shortest ladders compared when picking the most common one
+const LADDER_POOL = 50;
+
+export interface RandomLadderOptions {
+  /** Middle words; the shortest ladder between the picked edges has exactly this many */
+  rungs: number;
+  /**
+   * Favor edge pairs that join into a dictionary word (BARE + FOOT); indexed
+   * compounds are only tried for a dictionary with a compound index
+   */
+  preferCompound?: boolean;
+  /** Dictionary `neighbors` came from, also used to recognize compound words */
+  dictionaryId?: string;
+}
+
+/**
+ * Whether two edge words join into a compound word or indexed phrase, in either order.
+ * The compound index only applies to the dictionary it was built from.
+ */
+export function formsCompound(first: string, second: string, dictionaryId: string = DEFAULT_DICTIONARY): boolean {
+  return (
+    (hasCompoundIndex(dictionaryId) && !!findCompoundPair(first, second)) ||
+    isDictionaryWord(first + second, dictionaryId) ||
+    isDictionaryWord(second + first, dictionaryId)
+  );
+}
+
+/**
+ * A random indexed compound whose halves are exactly `rungs` middle words apart
+ * through `neighbors`, as a ready ladder
+ */
+function pickCompoundLadder(
+  dictionary: DictionaryData,
+  neighbors: NeighborLookup,
+  rungs: number
+): string[] | null {
+  const wordLength = wordAt(dictionary, 0)?.length;
+  const { pairs } = searchCompoundPairs({ wordLength, minRungs: rungs, maxRungs: rungs, limit: Infinity });
+  const usable = pairs.filter((pair) => neighbors(pair.first).length > 0 && neighbors(pair.second).length > 0);
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS && usable.length > 0; attempt++) {
+    const pair = usable.splice(Math.floor(Math.random() * usable.length), 1)[0];
+    // The index measures rungs on the full graph; a restricted one may need more
+    const paths = findAllShortestPaths(pair.first, pair.second, neighbors, LADDER_POOL);
+    if (paths.length > 0 && paths[0].length === rungs + 2) {
+      return rankByCommonness(paths, dictionary)[0];
+    }
+  }
+  return null;
+}
+
+function randomItem<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+/**
+ * Draw a random word with at least one neighbor, dropping drawn word indexes
+ * whose words have none from `candidates` so they aren't drawn again
+ */
+function drawStart(dictionary: DictionaryData, candidates: number[], neighbors: NeighborLookup): string | null {
+  while (candidates.length > 0) {
+    const index = Math.floor(Math.random() * candidates.length);
+    const word = wordAt(dictionary, candidates[index])!;
+    if (neighbors(word).length > 0) return word;
+    candidates[index] = candidates[candidates.length - 1];
+    candidates.pop();
+  }
+  return null;
+}
+
+/**
+ * Every word exactly `steps` steps from `start` (shortest-path distance)
+ */
+function wordsAtDistance(start: string, neighbors: NeighborLookup, steps: number): string[] {
+  let frontier = [start];
+  const seen = new Set(frontier);
+
+  for (let step = 0; step < steps && frontier.length > 0; step++) {
+    const next: string[] = [];
+    for (const word of frontier) {
+      for (const neighbor of neighbors(word)) {
+        if (!seen.has(neighbor)) {
+          seen.add(neighbor);
+          next.push(neighbor);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return frontier;
+}
+
+/**
+ * Pick random edge words whose shortest ladder has exactly `rungs` middle
+ * words, and return that ladder (the most common one when scores exist).
+ * `neighbors` usually skips words that aren't allowed and returns none for
+ * them, so both edges and rungs come from the allowed words by construction.
+ */
+export function pickRandomLadder(
+  dictionary: DictionaryData,
+  neighbors: NeighborLookup,
+  { rungs, preferCompound = false, dictionaryId = DEFAULT_DICTIONARY }: RandomLadderOptions
+): string[] | null {
+  if (preferCompound && hasCompoundIndex(dictionaryId)) {
+    const compoundLadder = pickCompoundLadder(dictionary, neighbors, rungs);
+    if (compoundLadder) return compoundLadder;
+  }
+
+  // Word indexes rather than words, so the word list is never decoded as a whole
+  const starts = Array.from({ length: wordCount(dictionary) }, (_, i) => i);
+  let fallback: [string, string] | null = null;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const start = drawStart(dictionary, starts, neighbors);
+    if (!start) break;
+    const ends = wordsAtDistance(start, neighbors, rungs + 1);
+    if (ends.length === 0) continue;
+
+    if (!preferCompound) {
+      fallback = [start, randomItem(ends)];
+      break;
+    }
+
+    const compoundEnds = ends.filter((end) => formsCompound(start, end, dictionaryId));
+    if (compoundEnds.length > 0) {
+      fallback = [start, randomItem(compoundEnds)];
+      break;
+    }
+    // Keep a plain pair in case no compound turns up
+    fallback = fallback || [start, randomItem(ends)];
+  }
+
+  if (!fallback) return null;
+
+  const [start, end] = fallback;
+  const paths = findAllShortestPaths(start, end, neighbors, LADDER_POOL);
+  return rankByCommonness(paths, dictionary)[0] || null;
+}
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findThemedLadder } from './themedLadder';
+
+// Connector words only link AAA-ACB-CCB; the theme alone needs six steps
+const THEME = ['BAA', 'BBA', 'BBB', 'CBB', 'CCB'];
+const CONNECTORS: Record<string, string[]> = {
+  AAA: ['ACB'],
+  ACB: ['AAA', 'CCB'],
+  CCB: ['ACB'],
+};
+const connectors = (word: string) => CONNECTORS[word] || [];
+
+describe('findThemedLadder', () => {
+  it('stays on theme when the theme-only ladder fits', () => {
+    assert.deepEqual(findThemedLadder('AAA', 'CCC', THEME, 7, connectors), {
+      path: ['AAA', 'BAA', 'BBA', 'BBB', 'CBB', 'CCB', 'CCC'],
+      offTheme: [],
+    });
+  });
+
+  it('takes a connector when the cheaper theme-only ladder is too long', () => {
+    assert.deepEqual(findThemedLadder('AAA', 'CCC', THEME, 6, connectors), {
+      path: ['AAA', 'ACB', 'CCB', 'CCC'],
+      offTheme: ['ACB'],
+    });
+  });
+
+  it('finds nothing when no ladder fits', () => {
+    assert.equal(findThemedLadder('AAA', 'CCC', THEME, 6), null);
+    assert.equal(findThemedLadder('AAA', 'CCC', THEME, 3, connectors), null);
+  });
+});
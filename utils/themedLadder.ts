@@ -0,0 +1,106 @@
+import { buildPatternIndex, patternNeighbors } from './wordGraph';
+import { NeighborLookup } from './wordLadder';
+
+/** Lets the search take several theme steps to avoid one connector */
+const CONNECTOR_COST = 1000;
+
+export interface ThemedLadder {
+  path: string[];
+  /** Middle words that came from the general dictionary rather than the theme list */
+  offTheme: string[];
+}
+
+/**
+ * Shortest ladder between two words through an author's own word list. With
+ * `connectors`, general dictionary words may fill gaps in the list: the ladder
+ * then uses as few of them as possible within `maxLength` words, and the
+ * fewest steps among those. Edge words count as part of the theme.
+ */
+export function findThemedLadder(
+  start: string,
+  end: string,
+  themeWords: string[],
+  maxLength: number,
+  connectors?: NeighborLookup
+): ThemedLadder | null {
+  const theme = new Set([...themeWords, start, end]);
+  const patterns = buildPatternIndex(theme);
+  // Theme words are found by pattern, so connector words can lead back into the list
+  const neighbors = (word: string) => {
+    const inTheme = patternNeighbors(patterns, word);
+    return connectors ? Array.from(new Set([...inTheme, ...connectors(word)])) : inTheme;
+  };
+
+  // Dijkstra over (cost, word, steps) with a binary min-heap. A word is
+  // expanded again when a costlier path reaches it in fewer steps, since that
+  // path may be the only one that still fits in maxLength words.
+  const key = (word: string, steps: number) => `${steps}:${word}`;
+  const costs = new Map<string, number>([[key(start, 0), 0]]);
+  const parents = new Map<string, { word: string; parent: string | null }>([
+    [key(start, 0), { word: start, parent: null }],
+  ]);
+  // Fewest steps of any expanded path to each word; those were all cheaper
+  const fewestSteps = new Map<string, number>();
+  const heap: [number, string, number][] = [];
+  const push = (entry: [number, string, number]) => {
+    heap.push(entry);
+    for (let i = heap.length - 1; i > 0; ) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[i], heap[parent]] = [heap[parent], heap[i]];
+      i = parent;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      for (let i = 0; ; ) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  push([0, start, 0]);
+  while (heap.length > 0) {
+    const [cost, word, steps] = pop();
+    const state = key(word, steps);
+    if (cost > costs.get(state)!) continue;
+    // A cheaper path already got here in no more steps
+    if ((fewestSteps.get(word) ?? Infinity) <= steps) continue;
+    fewestSteps.set(word, steps);
+
+    if (word === end) {
+      const path: string[] = [];
+      for (let current: string | null = state; current !== null; current = parents.get(current)!.parent) {
+        path.unshift(parents.get(current)!.word);
+      }
+      return { path, offTheme: path.filter((w) => !theme.has(w)) };
+    }
+    // A ladder of maxLength words has maxLength - 1 steps
+    if (steps + 1 >= maxLength) continue;
+
+    for (const neighbor of neighbors(word)) {
+      if ((fewestSteps.get(neighbor) ?? Infinity) <= steps + 1) continue;
+      const next = cost + (theme.has(neighbor) ? 1 : CONNECTOR_COST);
+      const nextState = key(neighbor, steps + 1);
+      const known = costs.get(nextState);
+      if (known === undefined || next < known) {
+        costs.set(nextState, next);
+        parents.set(nextState, { word: neighbor, parent: state });
+        push([next, neighbor, steps + 1]);
+      }
+    }
+  }
+
+  return null;
+}
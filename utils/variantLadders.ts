@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LadderRules } from '@/types/game';
+import { loadDictionary, wordNeighbors } from './dictionaryData';
+import { DEFAULT_DICTIONARY, isDictionaryId } from './dictionaries';
+import { NeighborLookup } from './wordLadder';
+
+/** Contents of `data/<dictionary>/variants-N.json`, written by the preprocess script */
+export interface VariantEdges {
+  anagrams: string[][]; // groups of N-letter words made of the same letters
+  longer: Record<string, string[]>; // N-letter word -> (N+1)-letter words with one letter added
+}
+
+interface VariantIndex {
+  anagrams: Map<string, string[]>;
+  longer: Record<string, string[]>;
+  shorter: Map<string, string[]>; // (N+1)-letter word -> N-letter words with one letter dropped
+}
+
+// Cache loaded edges by "<dictionary id>:<word length>"; null marks a missing variants file
+const variantCache: Map<string, VariantIndex | null> = new Map();
+
+/**
+ * Load one dictionary's variant-rule edges for one word length
+ */
+export function loadVariantEdges(wordLength: number, dictionaryId: string = DEFAULT_DICTIONARY): VariantIndex | null {
+  if (!isDictionaryId(dictionaryId)) return null;
+
+  const cacheKey = `${dictionaryId}:${wordLength}`;
+  if (variantCache.has(cacheKey)) {
+    return variantCache.get(cacheKey)!;
+  }
+
+  let index: VariantIndex | null = null;
+  try {
+    const filePath = path.join(process.cwd(), 'data', dictionaryId, `variants-${wordLength}.json`);
+    if (fs.existsSync(filePath)) {
+      const edges: VariantEdges = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      index = { anagrams: new Map(), longer: edges.longer, shorter: new Map() };
+      for (const group of edges.anagrams) {
+        for (const word of group) {
+          index.anagrams.set(word, group.filter((other) => other !== word));
+        }
+      }
+      for (const [word, longerWords] of Object.entries(edges.longer)) {
+        for (const longer of longerWords) {
+          index.shorter.set(longer, [...(index.shorter.get(longer) || []), word]);
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`Error loading ${dictionaryId} variant edges for length ${wordLength}:`, error);
+  }
+
+  variantCache.set(cacheKey, index);
+  return index;
+}
+
+/**
+ * Neighbor lookup for a rule set, limited to words `allowed` accepts.
+ * Classic steps come from the dictionary graph, the others from the variant files.
+ */
+export function variantNeighbors(
+  rules: LadderRules,
+  allowed: (word: string) => boolean,
+  dictionaryId: string = DEFAULT_DICTIONARY
+): NeighborLookup {
+  return (word) => {
+    const dictionary = loadDictionary(word.length, dictionaryId);
+    const neighbors = dictionary ? wordNeighbors(dictionary, word) : [];
+    const extra: string[] = [];
+
+    if (rules === 'anagram') {
+      extra.push(...(loadVariantEdges(word.length, dictionaryId)?.anagrams.get(word) || []));
+    } else if (rules === 'add-drop') {
+      extra.push(...(loadVariantEdges(word.length, dictionaryId)?.longer[word] || []));
+      extra.push(...(loadVariantEdges(word.length - 1, dictionaryId)?.shorter.get(word) || []));
+    }
+
+    return [...neighbors, ...extra].filter(allowed);
+  };
+}
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DictionaryData } from './dictionaryData';
+import { getPuzzleStorage } from './puzzleStorage';
+import { isAnyLanguageWord, normalizeAnyWord } from './languages';
+
+const BLOCKLIST_DOCUMENT = 'word-blocklist';
+
+// The maintained list is read once per process
+let baseBlocklist: Set<string> | null = null;
+
+/**
+ * Parse blocklist text: one word per line, `#` starts a comment
+ */
+export function parseBlocklist(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => normalizeAnyWord(line.replace(/#.*/, '').trim()))
+    .filter(isAnyLanguageWord);
+}
+
+/**
+ * The maintained blocklist shipped with the app (`blocklist.txt`)
+ */
+export function loadBaseBlocklist(): Set<string> {
+  if (!baseBlocklist) {
+    const filePath = path.join(process.cwd(), 'blocklist.txt');
+    baseBlocklist = new Set(fs.existsSync(filePath) ? parseBlocklist(fs.readFileSync(filePath, 'utf-8')) : []);
+  }
+  return baseBlocklist;
+}
+
+/**
+ * Words admins have blocked at runtime, alphabetically
+ */
+export async function getCustomBlockedWords(): Promise<string[]> {
+  return (await getPuzzleStorage().getDocument<string[]>(BLOCKLIST_DOCUMENT)) || [];
+}
+
+/**
+ * Add words to the runtime blocklist; returns the updated list
+ */
+export async function addBlockedWords(words: string[]): Promise<string[]> {
+  return getPuzzleStorage().updateDocument<string[]>(BLOCKLIST_DOCUMENT, (current) =>
+    Array.from(new Set([...(current || []), ...words.map(normalizeAnyWord)])).sort()
+  );
+}
+
+/**
+ * Remove a word from the runtime blocklist; returns false if it wasn't there
+ */
+export async function removeBlockedWord(word: string): Promise<boolean> {
+  let removed = false;
+  await getPuzzleStorage().updateDocument<string[]>(BLOCKLIST_DOCUMENT, (current) => {
+    const updated = (current || []).filter((blocked) => blocked !== normalizeAnyWord(word));
+    removed = updated.length !== (current || []).length;
+    return updated;
+  });
+  return removed;
+}
+
+/**
+ * Every blocked word: the maintained list, runtime additions, and any words
+ * flagged in a preprocessed dictionary
+ */
+export async function getBlockedWords(dictionary?: DictionaryData | null): Promise<Set<string>> {
+  const blocked = new Set(loadBaseBlocklist());
+  for (const word of await getCustomBlockedWords()) blocked.add(word);
+  for (const word of dictionary?.blocked || []) blocked.add(word);
+  return blocked;
+}
@@ -0,0 +1,95 @@
+import { LadderDifficulty } from '@/types/game';
+import {
+  commonnessScore,
+  DictionaryData,
+  installedWordLengths,
+  loadDictionary,
+  wordNeighbors,
+} from './dictionaryData';
+import { NeighborLookup } from './wordLadder';
+
+/** Lowest commonness score a generated middle word may have */
+export const DIFFICULTY_MIN_COMMONNESS: Record<LadderDifficulty, number> = {
+  everyday: 40,
+  moderate: 10,
+  obscure: 0,
+};
+
+export const LADDER_DIFFICULTIES = Object.keys(DIFFICULTY_MIN_COMMONNESS) as LadderDifficulty[];
+
+/**
+ * Whether this dictionary was preprocessed with a word-frequency list
+ */
+export function hasCommonness(dictionary: DictionaryData): boolean {
+  // Checked without decoding a compact dictionary's word list
+  if (dictionary.compact) return !!dictionary.compact.commonness;
+  return !!dictionary.commonness && Object.keys(dictionary.commonness).length > 0;
+}
+
+/**
+ * Whether a named dictionary was preprocessed with a word-frequency list.
+ * Every word length is built from the same list, so checking one is enough.
+ */
+export function dictionaryHasCommonness(dictionaryId: string): boolean {
+  const [length] = installedWordLengths(dictionaryId);
+  const dictionary = length ? loadDictionary(length, dictionaryId) : null;
+  return !!dictionary && hasCommonness(dictionary);
+}
+
+/**
+ * The rarest middle word of a ladder and its score (0 when not in the frequency list)
+ */
+export function rarestMiddleWord(
+  path: string[],
+  dictionary: DictionaryData
+): { word?: string; score: number } {
+  let rarest: { word?: string; score: number } = { score: 100 };
+  for (const word of path.slice(1, -1)) {
+    const score = commonnessScore(dictionary, word);
+    if (rarest.word === undefined || score < rarest.score) {
+      rarest = { word, score };
+    }
+  }
+  return rarest;
+}
+
+/**
+ * Neighbor lookup over the word graph that skips middle-word candidates too
+ * obscure for the difficulty or blocked. Words in `keep` (edge words,
+ * waypoints) always stay. Words are filtered as a search reaches them, so a
+ * request only pays for the part of the graph it visits.
+ */
+export function restrictNeighbors(
+  dictionary: DictionaryData,
+  difficulty: LadderDifficulty,
+  keep: string[],
+  blocked: Set<string> = new Set()
+): NeighborLookup {
+  const minimum = hasCommonness(dictionary) ? DIFFICULTY_MIN_COMMONNESS[difficulty] : 0;
+  const keepSet = new Set(keep);
+  const allowed = (word: string) =>
+    keepSet.has(word) || (!blocked.has(word) && (minimum === 0 || commonnessScore(dictionary, word) >= minimum));
+
+  // Searches revisit words, so each one is only filtered once
+  const filtered = new Map<string, readonly string[]>();
+  return (word) => {
+    let neighbors = filtered.get(word);
+    if (!neighbors) {
+      neighbors = allowed(word) ? wordNeighbors(dictionary, word).filter(allowed) : [];
+      filtered.set(word, neighbors);
+    }
+    return neighbors;
+  };
+}
+
+/**
+ * Order ladders shortest first, then by how common their rarest middle word is
+ */
+export function rankByCommonness(paths: string[][], dictionary: DictionaryData): string[][] {
+  if (!hasCommonness(dictionary)) return paths;
+
+  return paths
+    .map((path) => ({ path, score: rarestMiddleWord(path, dictionary).score }))
+    .sort((a, b) => a.path.length - b.path.length || b.score - a.score)
+    .map(({ path }) => path);
+}
@@ -0,0 +1,58 @@
+/**
+ * One-letter-change graphs built with wildcard patterns: every word is filed
+ * under each pattern it matches ("CAT" under "_AT", "C_T" and "CA_"), and words
+ * sharing a pattern are neighbors. Used by the preprocess script for whole
+ * dictionaries and by the themed ladder search for authors' own word lists.
+ */
+
+/**
+ * The wildcard patterns a word matches, one per letter position
+ */
+export function wildcardPatterns(word: string): string[] {
+  return Array.from({ length: word.length }, (_, i) => word.slice(0, i) + '_' + word.slice(i + 1));
+}
+
+/**
+ * Group words by the wildcard patterns they match
+ */
+export function buildPatternIndex(words: Iterable<string>): Map<string, string[]> {
+  const patterns = new Map<string, string[]>();
+  for (const word of Array.from(words)) {
+    for (const pattern of wildcardPatterns(word)) {
+      const group = patterns.get(pattern);
+      if (group) group.push(word);
+      else patterns.set(pattern, [word]);
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Words in the index one letter change away from `word`, which need not be in it
+ */
+export function patternNeighbors(patterns: Map<string, string[]>, word: string): string[] {
+  const neighbors = new Set<string>();
+  for (const pattern of wildcardPatterns(word)) {
+    for (const neighbor of patterns.get(pattern) || []) {
+      if (neighbor !== word) neighbors.add(neighbor);
+    }
+  }
+  return Array.from(neighbors);
+}
+
+/**
+ * Adjacency lists for equal-length words. `onProgress` is called with the
+ * number of words done so far, for long-running builds.
+ */
+export function buildWordGraph(
+  words: string[],
+  onProgress?: (done: number) => void
+): Record<string, string[]> {
+  const patterns = buildPatternIndex(words);
+  const graph: Record<string, string[]> = {};
+  words.forEach((word, i) => {
+    onProgress?.(i);
+    graph[word] = patternNeighbors(patterns, word);
+  });
+  return graph;
+}
@@ -1,3 +1,15 @@
+import { LadderRules, LanguageId } from '@/types/game';
+import { getLanguage, normalizeWord } from './languages';
+
+export const LADDER_RULES: LadderRules[] = ['classic', 'add-drop', 'anagram'];
+
+/** What one step may do under each rule set, for labels and error messages */
+export const LADDER_RULE_STEPS: Record<LadderRules, string> = {
+  classic: 'change exactly one letter',
+  'add-drop': 'change, add or drop exactly one letter',
+  anagram: 'change exactly one letter or rearrange all of them',
+};
+
 /**
  * Check if two words differ by exactly one letter
  */
@@ -17,37 +29,181 @@ export function differByOne(str1: string, str2: string): boolean {
 }
 
 /**
- * Generate a word ladder between two words using BFS
- * This is a simplified version - in production, you'd want to use a word dictionary
+ * Check if the longer word is the shorter one with a single letter inserted
  */
-export function generateWordLadder(
-  startWord: string,
-  endWord: string,
-  maxSteps: number = 10
+export function differByOneLetterAdded(str1: string, str2: string): boolean {
+  const [shorter, longer] = str1.length < str2.length ? [str1, str2] : [str2, str1];
+  if (longer.length !== shorter.length + 1) return false;
+
+  const a = shorter.toUpperCase();
+  const b = longer.toUpperCase();
+  let i = 0;
+  while (i < a.length && a[i] === b[i]) i++;
+  // Skip the inserted letter; the rest must line up
+  return a.slice(i) === b.slice(i + 1);
+}
+
+/**
+ * Check if two different words use exactly the same letters
+ */
+export function isAnagram(str1: string, str2: string): boolean {
+  const a = str1.toUpperCase();
+  const b = str2.toUpperCase();
+  if (a.length !== b.length || a === b) return false;
+  return a.split('').sort().join('') === b.split('').sort().join('');
+}
+
+/**
+ * Check if one word can follow another in a ladder played with these rules
+ */
+export function isLadderStep(str1: string, str2: string, rules: LadderRules = 'classic'): boolean {
+  if (differByOne(str1, str2)) return true;
+  if (rules === 'add-drop') return differByOneLetterAdded(str1, str2);
+  if (rules === 'anagram') return isAnagram(str1, str2);
+  return false;
+}
+
+/** Words one step away from a word; return an empty list for unknown words */
+export type NeighborLookup = (word: string) => readonly string[];
+
+export interface PathSearchOptions {
+  /**
+   * 'bidirectional' (default) grows breadth-first frontiers from both ends;
+   * 'astar' searches from the start, guided by how many letters still differ.
+   * That guide only holds for one-letter changes, so A* may return a longer
+   * ladder than necessary when steps can add, drop or rearrange letters.
+   */
+  strategy?: 'bidirectional' | 'astar';
+  /** Longest ladder to accept, counting both edge words */
+  maxLength?: number;
+}
+
+/**
+ * Number of positions at which two equal-length words differ
+ */
+export function hammingDistance(str1: string, str2: string): number {
+  let distance = 0;
+  for (let i = 0; i < str1.length; i++) {
+    if (str1[i] !== str2[i]) distance++;
+  }
+  return distance;
+}
+
+/**
+ * Follow parent pointers back from `word` to the root of its search
+ */
+function walkParents(word: string, parents: Map<string, string | null>): string[] {
+  const path: string[] = [];
+  for (let current: string | null = word; current !== null; current = parents.get(current)!) {
+    path.push(current);
+  }
+  return path;
+}
+
+/**
+ * Bidirectional BFS: expand whichever frontier is smaller one whole layer at a
+ * time. While the two visited sets are disjoint every ladder is longer than
+ * both depths combined, so the first word the searches share lies on a
+ * shortest ladder.
+ */
+function bidirectionalSearch(
+  start: string,
+  end: string,
+  neighbors: NeighborLookup,
+  maxLength: number
 ): string[] | null {
-  if (startWord.length !== endWord.length) return null;
+  const fromStart = new Map<string, string | null>([[start, null]]);
+  const fromEnd = new Map<string, string | null>([[end, null]]);
+  let startFrontier = [start];
+  let endFrontier = [end];
+  // Words in the shortest possible ladder, given the layers explored so far
+  let lowerBound = 2;
 
-  const visited = new Set<string>();
-  const queue: { word: string; path: string[] }[] = [{ word: startWord, path: [startWord] }];
-  visited.add(startWord.toUpperCase());
+  while (startFrontier.length > 0 && endFrontier.length > 0) {
+    if (lowerBound > maxLength) return null;
 
-  while (queue.length > 0) {
-    const { word, path } = queue.shift()!;
+    const forward = startFrontier.length <= endFrontier.length;
+    const parents = forward ? fromStart : fromEnd;
+    const others = forward ? fromEnd : fromStart;
+    const next: string[] = [];
 
-    if (word.toUpperCase() === endWord.toUpperCase()) {
-      return path;
+    for (const word of forward ? startFrontier : endFrontier) {
+      for (const neighbor of neighbors(word)) {
+        if (others.has(neighbor)) {
+          const [startSide, endSide] = forward ? [word, neighbor] : [neighbor, word];
+          return [...walkParents(startSide, fromStart).reverse(), ...walkParents(endSide, fromEnd)];
+        }
+        if (!parents.has(neighbor)) {
+          parents.set(neighbor, word);
+          next.push(neighbor);
+        }
+      }
     }
 
-    if (path.length >= maxSteps) continue;
+    if (forward) startFrontier = next;
+    else endFrontier = next;
+    lowerBound++;
+  }
 
-    // Generate neighbors (words that differ by one letter)
-    const neighbors = generateNeighbors(word);
+  return null;
+}
 
-    for (const neighbor of neighbors) {
-      const neighborUpper = neighbor.toUpperCase();
-      if (!visited.has(neighborUpper) && differByOne(word, neighbor)) {
-        visited.add(neighborUpper);
-        queue.push({ word: neighbor, path: [...path, neighbor] });
+/**
+ * A* from the start word. Each step changes one letter, so the number of
+ * letters that still differ from the end word never overestimates the steps
+ * left and the first time the end word is reached the path is shortest.
+ */
+function aStarSearch(start: string, end: string, neighbors: NeighborLookup, maxLength: number): string[] | null {
+  const parents = new Map<string, string | null>([[start, null]]);
+  const steps = new Map<string, number>([[start, 0]]);
+  // Binary min-heap ordered by estimated total length, then by fewer steps left
+  const heap: { word: string; taken: number; estimate: number; remaining: number }[] = [];
+
+  const before = (a: (typeof heap)[number], b: (typeof heap)[number]) =>
+    a.estimate < b.estimate || (a.estimate === b.estimate && a.remaining < b.remaining);
+  const push = (word: string, taken: number) => {
+    const remaining = hammingDistance(word, end);
+    heap.push({ word, taken, estimate: taken + remaining, remaining });
+    for (let i = heap.length - 1; i > 0; ) {
+      const parent = (i - 1) >> 1;
+      if (!before(heap[i], heap[parent])) break;
+      [heap[i], heap[parent]] = [heap[parent], heap[i]];
+      i = parent;
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      for (let i = 0; ; ) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && before(heap[left], heap[smallest])) smallest = left;
+        if (right < heap.length && before(heap[right], heap[smallest])) smallest = right;
+        if (smallest === i) break;
+        [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  push(start, 0);
+  while (heap.length > 0) {
+    const { word, taken, estimate } = pop();
+    if (estimate + 1 > maxLength) return null;
+    if (word === end) return walkParents(end, parents).reverse();
+    // Skip stale heap entries for words reached more cheaply since
+    if (taken > steps.get(word)!) continue;
+
+    for (const neighbor of neighbors(word)) {
+      const known = steps.get(neighbor);
+      if (known === undefined || taken + 1 < known) {
+        steps.set(neighbor, taken + 1);
+        parents.set(neighbor, word);
+        push(neighbor, taken + 1);
       }
     }
   }
@@ -56,12 +212,51 @@ export function generateWordLadder(
 }
 
 /**
- * Generate potential neighbor words by changing one letter at a time
+ * Shortest ladder between two upper-case words, or null if none exists within
+ * `maxLength`. Shared by the dictionary-backed API search and the helpers below.
+ */
+export function searchLadder(
+  start: string,
+  end: string,
+  neighbors: NeighborLookup,
+  options: PathSearchOptions = {}
+): string[] | null {
+  const maxLength = options.maxLength ?? Infinity;
+  if (start === end) return [start];
+
+  return options.strategy === 'astar'
+    ? aStarSearch(start, end, neighbors, maxLength)
+    : bidirectionalSearch(start, end, neighbors, maxLength);
+}
+
+/**
+ * Generate a word ladder between two words
+ * This is a simplified version - in production, you'd want to use a word dictionary
+ */
+export function generateWordLadder(
+  startWord: string,
+  endWord: string,
+  maxSteps: number = 10,
+  language?: LanguageId
+): string[] | null {
+  if (startWord.length !== endWord.length) return null;
+
+  return searchLadder(
+    normalizeWord(startWord, language),
+    normalizeWord(endWord, language),
+    (word) => generateNeighbors(word, language),
+    { maxLength: maxSteps }
+  );
+}
+
+/**
+ * Generate potential neighbor words by changing one letter at a time, using
+ * the language's alphabet
  * This is a heuristic approach - a real implementation would use a dictionary
  */
-function generateNeighbors(word: string): string[] {
+function generateNeighbors(word: string, language?: LanguageId): string[] {
   const neighbors: string[] = [];
-  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+  const letters = Array.from(getLanguage(language).alphabet);
 
   for (let i = 0; i < word.length; i++) {
     for (const letter of letters) {
@@ -76,45 +271,29 @@ function generateNeighbors(word: string): string[] {
 }
 
 /**
- * Find shortest path between two words (simplified)
- * For a real implementation, you'd integrate with a word dictionary API or local dictionary
+ * Find shortest path between two words using a plain word set
+ * For large dictionaries prefer the preprocessed graph in utils/ladderPaths
  */
 export function findWordLadderPath(
   startWord: string,
   endWord: string,
-  dictionary: Set<string>
+  dictionary: Set<string>,
+  options: PathSearchOptions = {},
+  language?: LanguageId
 ): string[] | null {
   if (startWord.length !== endWord.length) return null;
 
-  const startUpper = startWord.toUpperCase();
-  const endUpper = endWord.toUpperCase();
-
-  // Filter dictionary to words of same length
-  const sameLengthWords = Array.from(dictionary).filter(
-    w => w.length === startWord.length
+  // Words of the same length, normalized so lookups ignore case and folded accents
+  const sameLengthWords = new Set(
+    Array.from(dictionary)
+      .filter((w) => w.length === startWord.length)
+      .map((w) => normalizeWord(w, language))
   );
 
-  const visited = new Set<string>();
-  const queue: { word: string; path: string[] }[] = [{ word: startUpper, path: [startUpper] }];
-  visited.add(startUpper);
-
-  while (queue.length > 0) {
-    const { word, path } = queue.shift()!;
-
-    if (word === endUpper) {
-      return path;
-    }
-
-    // Find neighbors in dictionary
-    for (const dictWord of sameLengthWords) {
-      const dictUpper = dictWord.toUpperCase();
-      if (!visited.has(dictUpper) && differByOne(word, dictUpper)) {
-        visited.add(dictUpper);
-        queue.push({ word: dictUpper, path: [...path, dictUpper] });
-      }
-    }
-  }
-
-  return null;
+  return searchLadder(
+    normalizeWord(startWord, language),
+    normalizeWord(endWord, language),
+    (word) => generateNeighbors(word, language).filter((neighbor) => sameLengthWords.has(neighbor)),
+    options
+  );
 }
-